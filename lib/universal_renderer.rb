@@ -5,7 +5,10 @@ require "universal_renderer/configuration"
 require "universal_renderer/renderable"
 
 require "universal_renderer/ssr/response"
+require "universal_renderer/ssr/error_response"
 
+require "universal_renderer/client/payload"
+require "universal_renderer/client/signature"
 require "universal_renderer/client/base"
 require "universal_renderer/client/stream"
 
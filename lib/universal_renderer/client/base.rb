@@ -13,17 +13,20 @@ module UniversalRenderer
     class Base
       # Performs a POST request to the SSR service to retrieve the complete SSR content.
       # This is used for non-streaming SSR, where the entire payload is fetched
-      # before the main application view is rendered.
+      # before the main application view is rendered. The configured `app`, if any,
+      # selects the render entry on a service serving several.
       #
       # @param url [String] The URL of the page to render on the SSR server.
       #   This should typically be the `request.original_url` from the controller.
       # @param props [Hash] A hash of props to be passed to the SSR service.
       #   These props will be available to the frontend components for rendering.
+      # @param nonce [String, nil] The Content-Security-Policy nonce of the page, added by
+      #   the SSR service to the asset links and state it returns.
       # @return [UniversalRenderer::SSR::Response, nil] The SSR payload wrapped in
       #   a {UniversalRenderer::SSR::Response} struct when the request is successful
       #   (HTTP 2xx). Returns `nil` when the request fails or the SSR service is
       #   unreachable.
-      def self.call(url, props)
+      def self.call(url, props, nonce: nil)
         ssr_url = UniversalRenderer.config.ssr_url
         return if ssr_url.blank?
 
@@ -37,25 +40,41 @@ module UniversalRenderer
           http.read_timeout = timeout
 
           request = Net::HTTP::Post.new(uri.request_uri)
-          request.body = { url: url, props: props }.to_json
-          request["Content-Type"] = "application/json"
+          Payload.apply(
+            request,
+            { url: url, props: props, nonce: nonce, app: UniversalRenderer.config.app }.compact
+          )
+          Signature.sign(request)
 
           response = http.request(request)
 
           if response.is_a?(Net::HTTPSuccess)
             raw_data = JSON.parse(response.body).deep_symbolize_keys
 
+            if raw_data[:fallback]
+              Rails.logger.warn(
+                "SSR render for #{url} failed with #{raw_data[:reason]}; falling back to client rendering"
+              )
+            end
+
             # Map the keys we care about to the Struct. The Node service might
             # send `:body_html` instead of `:body`; favour the latter if
             # present but fall back gracefully.
             UniversalRenderer::SSR::Response.new(
               head: raw_data[:head],
               body: raw_data[:body] || raw_data[:body_html],
-              body_attrs: raw_data[:body_attrs]
+              body_attrs: raw_data[:body_attrs],
+              state: raw_data[:state],
+              response: raw_data[:response],
+              fallback: raw_data[:fallback] == true,
+              reason: raw_data[:reason]
             )
           else
+            error = UniversalRenderer::SSR::ErrorResponse.from_http(response)
             Rails.logger.error(
-              "SSR fetch request to #{ssr_url} failed: #{response.code} - #{response.message} (URL: #{url})"
+              "SSR fetch request to #{ssr_url} failed: #{error.status} #{error.code} - #{error.message} " \
+                "(URL: #{url}, retryable: #{error.retryable?}" \
+                "#{", retry after: #{error.retry_after}s" if error.retry_after})"
             )
             nil
           end
@@ -0,0 +1,60 @@
+require "json"
+require "zlib"
+
+module UniversalRenderer
+  module Client
+    # Encodes request bodies for the SSR service as JSON or MessagePack, following
+    # `request_format`, and gzips them when `compress_requests` is enabled and the
+    # body is large enough to benefit.
+    module Payload
+      COMPRESSION_THRESHOLD = 1024
+      CONTENT_TYPES = { json: "application/json", msgpack: "application/msgpack" }.freeze
+
+      # @param data [Hash] The request envelope, e.g. `{ url:, props:, template: }`.
+      # @param config [UniversalRenderer::Configuration] The configuration to follow.
+      # @return [Array(String, Hash)] The body and its `Content-Type` and
+      #   `Content-Encoding` headers.
+      def self.encode(data, config = UniversalRenderer.config)
+        format = config.request_format.to_sym
+        content_type = CONTENT_TYPES.fetch(format) do
+          raise ArgumentError, "Unsupported SSR request format: #{format.inspect}"
+        end
+
+        body = format == :msgpack ? to_msgpack(data) : data.to_json
+        headers = { "Content-Type" => content_type }
+
+        if config.compress_requests && body.bytesize >= COMPRESSION_THRESHOLD
+          body = Zlib.gzip(body)
+          headers["Content-Encoding"] = "gzip"
+        end
+
+        [body, headers]
+      end
+
+      # Sets the encoded body and its headers on a request.
+      #
+      # @param request [Net::HTTPRequest] The request to the SSR service.
+      # @param data [Hash] The request envelope.
+      # @param config [UniversalRenderer::Configuration] The configuration to follow.
+      # @return [Net::HTTPRequest] The request.
+      def self.apply(request, data, config = UniversalRenderer.config)
+        body, headers = encode(data, config)
+        request.body = body
+        headers.each { |name, value| request[name] = value }
+        request
+      end
+
+      def self.to_msgpack(data)
+        begin
+          require "msgpack"
+        rescue LoadError
+          raise LoadError, "request_format :msgpack requires the msgpack gem; add it to your Gemfile"
+        end
+
+        # Round-trips through JSON so props serialize like they do for the JSON format
+        MessagePack.pack(JSON.parse(data.to_json))
+      end
+      private_class_method :to_msgpack
+    end
+  end
+end
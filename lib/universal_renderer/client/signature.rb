@@ -0,0 +1,38 @@
+require "openssl"
+
+module UniversalRenderer
+  module Client
+    # Signs requests to the SSR service with the shared `auth_secret`, so that the
+    # service can reject requests that do not come from this application.
+    #
+    # The signature is an HMAC-SHA256 over `<timestamp>.<METHOD>.<path>.<body>`, so a
+    # signed body cannot be replayed against another route; the service rejects it once
+    # the timestamp is older than its replay window (5 minutes by default).
+    module Signature
+      TIMESTAMP_HEADER = "X-SSR-Timestamp".freeze
+      SIGNATURE_HEADER = "X-SSR-Signature".freeze
+
+      # @param method [String] The HTTP method, e.g. "POST".
+      # @param path [String] The path the request is sent to, including its query string.
+      # @param body [String] The exact request body that is sent.
+      # @param secret [String, nil] The shared secret.
+      # @param timestamp [Integer] Unix time in seconds.
+      # @return [Hash] The signature headers, or an empty hash when no secret is configured.
+      def self.headers(method, path, body, secret = UniversalRenderer.config.auth_secret, timestamp: Time.now.to_i)
+        return {} if secret.blank?
+
+        digest = OpenSSL::HMAC.hexdigest("SHA256", secret, "#{timestamp}.#{method.upcase}.#{path}.#{body}")
+        { TIMESTAMP_HEADER => timestamp.to_s, SIGNATURE_HEADER => "sha256=#{digest}" }
+      end
+
+      # Adds the signature headers for the request's method, path and body.
+      #
+      # @param request [Net::HTTPRequest] A request whose body is already set.
+      # @return [Net::HTTPRequest] The request.
+      def self.sign(request)
+        headers(request.method, request.path, request.body).each { |name, value| request[name] = value }
+        request
+      end
+    end
+  end
+end
@@ -3,6 +3,7 @@
 require_relative "stream/error_logger"
 require_relative "stream/execution"
 require_relative "stream/setup"
+require_relative "stream/templates"
 
 module UniversalRenderer
   module Client
@@ -15,10 +16,16 @@ module UniversalRenderer
       #
       # @param url [String] The URL of the page to render.
       # @param props [Hash] Data to be passed for rendering, including layout HTML.
-      # @param template [String] The HTML template to use for rendering.
+      # @param template [String] The HTML template to use for rendering. Unless
+      #   `config.cache_templates` is disabled, only its hash is sent once the SSR
+      #   service has received it (see {Templates}).
       # @param response [ActionDispatch::Response] The Rails response object to stream to.
+      # @param user_agent [String, nil] The browser's user agent, which lets the SSR
+      #   service send complete HTML to crawlers instead of flushing the shell early.
+      # @param nonce [String, nil] The Content-Security-Policy nonce of the page, used for
+      #   React's inline scripts and everything the SSR service injects.
       # @return [Boolean] True if streaming was initiated, false otherwise.
-      def self.call(url, props, template, response)
+      def self.call(url, props, template, response, user_agent: nil, nonce: nil)
         config = UniversalRenderer.config
 
         unless Setup.ensure_ssr_server_url_configured?(config)
@@ -31,8 +38,14 @@ module UniversalRenderer
         stream_uri_obj = nil
         full_ssr_url_for_log = config.ssr_url.to_s # For logging in case of early error
 
+        template_hash = Templates.digest(template) if config.cache_templates
+        request_fields = { userAgent: user_agent, nonce: nonce, app: config.app }.compact
+
         begin
-          body = { url: url, props: props, template: template }
+          body =
+            Templates.request_body(url, props, template, template_hash).merge(
+              request_fields
+            )
 
           actual_stream_uri, http_client, http_post_request =
             Setup.build_stream_request_components(body, config)
@@ -50,12 +63,40 @@ module UniversalRenderer
           return false
         end
 
-        Execution.perform_streaming(
-          http_client,
-          http_post_request,
-          response,
-          stream_uri_obj
-        )
+        result =
+          Execution.perform_streaming(
+            http_client,
+            http_post_request,
+            response,
+            stream_uri_obj
+          )
+
+        # The service does not know the template (yet); send it inline once more
+        if result == :template_unknown
+          Templates.forget(template_hash)
+          body =
+            Templates.request_body(
+              url,
+              props,
+              template,
+              template_hash,
+              inline: true
+            ).merge(request_fields)
+          _, http_client, http_post_request =
+            Setup.build_stream_request_components(body, config)
+
+          result =
+            Execution.perform_streaming(
+              http_client,
+              http_post_request,
+              response,
+              stream_uri_obj
+            )
+        end
+
+        Templates.register(template_hash) if result == true && template_hash
+
+        result == true
       rescue Errno::ECONNREFUSED,
              Errno::EHOSTUNREACH,
              Net::OpenTimeout,
@@ -2,6 +2,54 @@ module UniversalRenderer
   module Client
     class Stream
       module Execution
+        # Status the SSR service answers with when a template hash is not registered.
+        TEMPLATE_UNKNOWN_STATUS = "412"
+
+        # Header listing the headers set by the render, which are forwarded to Rails.
+        RESPONSE_HEADERS_HEADER = "X-SSR-Response-Headers"
+
+        # Applies the status, redirect, headers and cookies requested by the render.
+        # Must run before the first chunk is written, while the Rails response can
+        # still change.
+        #
+        # @param node_res [Net::HTTPResponse] The response of the SSR service.
+        # @param response [ActionDispatch::Response] The Rails response.
+        # @return [void]
+        def self.forward_response(node_res, response)
+          response.status = node_res.code.to_i
+          response.headers["Location"] = node_res["Location"] if node_res["Location"]
+
+          node_res[RESPONSE_HEADERS_HEADER]
+            .to_s
+            .split(",")
+            .map(&:strip)
+            .reject(&:empty?)
+            .each { |name| response.headers[name] = node_res[name] if node_res[name] }
+
+          cookies = node_res.get_fields("Set-Cookie")
+          append_cookies(response, cookies) if cookies
+        end
+
+        # Adds raw `Set-Cookie` values, keeping cookies already set by Rails.
+        # Rack 3 expects an array, older versions newline-separated values.
+        def self.append_cookies(response, cookies)
+          existing = response.headers["Set-Cookie"]
+          existing = existing.split("\n") if existing.is_a?(String)
+          all = Array(existing) + cookies
+
+          response.headers["Set-Cookie"] = Rack.release.to_i >= 3 ? all : all.join("\n")
+        end
+
+        # Whether the SSR service answered with a page rather than an error. Pages may
+        # carry any status the render chose, e.g. `404`; errors are JSON.
+        def self.page?(node_res)
+          node_res.is_a?(Net::HTTPSuccess) || node_res.content_type == "text/html"
+        end
+
+        # Streams the SSR response into the Rails response.
+        #
+        # @return [Boolean, Symbol] Whether streaming succeeded, or `:template_unknown`
+        #   when the template has to be sent inline. The Rails stream is left open then.
         def self.perform_streaming(
           http_client,
           http_post_request,
@@ -9,9 +57,18 @@ module UniversalRenderer
           stream_uri
         )
           success = false
+          template_unknown = false
 
           http_client.request(http_post_request) do |node_res|
-            if node_res.is_a?(Net::HTTPSuccess)
+            if node_res.code == TEMPLATE_UNKNOWN_STATUS
+              template_unknown = true
+            elsif node_res.is_a?(Net::HTTPRedirection) && node_res["Location"]
+              # The render redirected; there is no body to stream
+              forward_response(node_res, response)
+
+              success = true
+            elsif page?(node_res)
+              forward_response(node_res, response)
               node_res.read_body { |chunk| response.stream.write(chunk) }
 
               success = true
@@ -31,10 +88,12 @@ module UniversalRenderer
             )
             success = false
           ensure
-            response.stream.close unless response.stream.closed?
+            unless template_unknown || response.stream.closed?
+              response.stream.close
+            end
           end
 
-          success
+          template_unknown ? :template_unknown : success
         end
       end
     end
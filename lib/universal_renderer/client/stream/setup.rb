@@ -21,13 +21,9 @@ module UniversalRenderer
           http.open_timeout = config.timeout
           http.read_timeout = config.timeout
 
-          http_request =
-            Net::HTTP::Post.new(
-              stream_uri.request_uri,
-              "Content-Type" => "application/json"
-            )
-
-          http_request.body = body.to_json
+          http_request = Net::HTTP::Post.new(stream_uri.request_uri)
+          Payload.apply(http_request, body, config)
+          Signature.sign(http_request)
 
           [stream_uri, http, http_request]
         end
@@ -0,0 +1,63 @@
+require "digest"
+
+module UniversalRenderer
+  module Client
+    class Stream
+      # Remembers which layout templates the SSR service has already received,
+      # so that later stream requests only send the template's SHA-256 hash.
+      #
+      # The first request for a template sends it inline together with its hash,
+      # which registers it on the service. When the service answers
+      # `412 TEMPLATE_UNKNOWN` (e.g. after a restart) the template is sent inline again.
+      #
+      # Layouts containing per-request content (CSRF tokens, flash messages) hash
+      # differently every time, so only the most recent hashes are remembered.
+      module Templates
+        MAX_ENTRIES = 1_000
+
+        @registered = {}
+        @mutex = Mutex.new
+
+        # @param template [String] The HTML template.
+        # @return [String] The hex-encoded SHA-256 hash of the template.
+        def self.digest(template)
+          Digest::SHA256.hexdigest(template)
+        end
+
+        # Builds the JSON body of a stream request.
+        #
+        # @param url [String] The URL of the page to render.
+        # @param props [Hash] Data to be passed for rendering.
+        # @param template [String] The HTML template.
+        # @param template_hash [String, nil] The template hash, or nil to always send the template.
+        # @param inline [Boolean] Whether to send the template even if it is registered.
+        # @return [Hash] The request body.
+        def self.request_body(url, props, template, template_hash, inline: false)
+          return { url: url, props: props, template: template } unless template_hash
+
+          if !inline && registered?(template_hash)
+            { url: url, props: props, templateHash: template_hash }
+          else
+            { url: url, props: props, template: template, templateHash: template_hash }
+          end
+        end
+
+        def self.registered?(template_hash)
+          @mutex.synchronize { @registered.key?(template_hash) }
+        end
+
+        def self.register(template_hash)
+          @mutex.synchronize do
+            @registered.delete(template_hash)
+            @registered[template_hash] = true
+            @registered.shift while @registered.size > MAX_ENTRIES
+          end
+        end
+
+        def self.forget(template_hash)
+          @mutex.synchronize { @registered.delete(template_hash) }
+        end
+      end
+    end
+  end
+end
@@ -1,11 +1,17 @@
 module UniversalRenderer
   class Configuration
-    attr_accessor :ssr_url, :timeout, :ssr_stream_path
+    attr_accessor :ssr_url, :timeout, :ssr_stream_path, :cache_templates, :auth_secret,
+                  :compress_requests, :request_format, :app
 
     def initialize
       @ssr_url = ENV.fetch("SSR_SERVER_URL", nil)
       @timeout = (ENV["SSR_TIMEOUT"] || 3).to_i
       @ssr_stream_path = ENV.fetch("SSR_STREAM_PATH", "/stream")
+      @cache_templates = ENV.fetch("SSR_CACHE_TEMPLATES", "true") != "false"
+      @auth_secret = ENV.fetch("SSR_AUTH_SECRET", nil)
+      @compress_requests = ENV.fetch("SSR_COMPRESS_REQUESTS", "false") == "true"
+      @request_format = ENV.fetch("SSR_REQUEST_FORMAT", "json").to_sym
+      @app = ENV.fetch("SSR_APP", nil)
     end
   end
 end
@@ -38,7 +38,8 @@ module UniversalRenderer
       @ssr =
         UniversalRenderer::Client::Base.call(
           request.original_url,
-          @universal_renderer_props
+          @universal_renderer_props,
+          nonce: request.content_security_policy_nonce
         )
     end
 
@@ -55,7 +56,7 @@ module UniversalRenderer
         super unless success
       else
         fetch_ssr
-        super
+        super unless apply_ssr_response
       end
     end
 
@@ -70,7 +71,9 @@ module UniversalRenderer
           request.original_url,
           current_props,
           full_layout,
-          response
+          response,
+          user_agent: request.user_agent,
+          nonce: request.content_security_policy_nonce
         )
 
       # SSR streaming failed or was not possible (e.g. server down, config missing).
@@ -85,6 +88,50 @@ module UniversalRenderer
       end
     end
 
+    # Applies the status, headers and cookies requested by the render, and redirects
+    # when it asked to. Streaming responses are handled by {UniversalRenderer::Client::Stream}.
+    #
+    # @return [Boolean] Whether a redirect was performed instead of rendering.
+    def apply_ssr_response
+      control = @ssr&.response
+      return false if control.blank?
+
+      control[:headers]&.each do |name, value|
+        response.headers[name.to_s] = value
+      end
+      Array(control[:cookies]).each do |cookie|
+        cookies[cookie[:name]] = ssr_cookie_options(cookie)
+      end
+
+      if control[:location]
+        redirect_to control[:location], status: control[:status] || :found
+        return true
+      end
+
+      response.status = control[:status] if control[:status]
+      false
+    end
+
+    # Maps a cookie of the SSR response to the options of the Rails cookie jar.
+    def ssr_cookie_options(cookie)
+      expires =
+        if cookie[:maxAge]
+          cookie[:maxAge].seconds.from_now
+        elsif cookie[:expires]
+          Time.iso8601(cookie[:expires])
+        end
+
+      {
+        value: cookie[:value],
+        path: cookie[:path],
+        domain: cookie[:domain],
+        expires: expires,
+        httponly: cookie[:httpOnly],
+        secure: cookie[:secure],
+        same_site: cookie[:sameSite]&.to_sym
+      }.compact
+    end
+
     def initialize_props
       @universal_renderer_props = {}
     end
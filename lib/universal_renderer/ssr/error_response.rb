@@ -0,0 +1,76 @@
+require "json"
+
+module UniversalRenderer
+  module SSR
+    # Value object describing a failed response from the Node.js SSR service.
+    #
+    # Every route answers failures with the same JSON body
+    # (`{ error, code, message, retryable, phase?, field? }`) and sets the
+    # `X-SSR-Error-Code` and `X-SSR-Retryable` headers, so callers can decide
+    # whether to retry the request or fall back to client-side rendering.
+    #
+    # @!attribute status
+    #   @return [Integer] The HTTP status code.
+    # @!attribute code
+    #   @return [String, nil] Machine-readable error code, e.g. `RENDER_TIMEOUT`.
+    # @!attribute message
+    #   @return [String, nil] Description of the failure.
+    # @!attribute phase
+    #   @return [String, nil] The render phase that failed, e.g. `setup`.
+    # @!attribute field
+    #   @return [String, nil] The offending request field for validation errors.
+    # @!attribute retryable
+    #   @return [Boolean] Whether retrying the same request may succeed.
+    # @!attribute retry_after
+    #   @return [Integer, nil] Seconds after which a retry may succeed, from `Retry-After`,
+    #   e.g. when the service sheds load.
+    ErrorResponse =
+      Struct.new(
+        :status,
+        :code,
+        :message,
+        :phase,
+        :field,
+        :retryable,
+        :retry_after,
+        keyword_init: true
+      ) do
+        # Builds an error from a `Net::HTTPResponse`, preferring the JSON body
+        # and falling back to the headers when the body cannot be parsed.
+        #
+        # @param response [Net::HTTPResponse] A non-successful response.
+        # @return [UniversalRenderer::SSR::ErrorResponse]
+        def self.from_http(response)
+          data =
+            begin
+              JSON.parse(response.body.to_s)
+            rescue JSON::ParserError
+              {}
+            end
+          data = {} unless data.is_a?(Hash)
+
+          retryable = data.fetch("retryable", response["X-SSR-Retryable"])
+
+          new(
+            status: response.code.to_i,
+            code: data["code"] || response["X-SSR-Error-Code"],
+            message: data["message"] || response.message,
+            phase: data["phase"],
+            field: data["field"],
+            retryable: [true, "true"].include?(retryable),
+            retry_after: response["Retry-After"]&.to_i
+          )
+        end
+
+        # @return [Boolean] Whether the request may succeed if sent again.
+        def retryable?
+          retryable == true
+        end
+
+        # @return [Boolean] Whether the page should be rendered on the client instead.
+        def fallback?
+          !retryable?
+        end
+      end
+  end
+end
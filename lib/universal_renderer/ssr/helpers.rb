@@ -29,6 +29,24 @@ module UniversalRenderer
         end
       end
 
+      # @!method ssr_state
+      #   Outputs the hydration state returned by the SSR service.
+      #   The state is a `<script type="application/json">` element whose JSON has every
+      #   `<` escaped, so it is emitted as is instead of being removed by {#sanitize_ssr}.
+      #   Anything else is dropped. When streaming, the state is written by the service.
+      #   @return [String] The HTML-safe state script, or an empty string.
+      def ssr_state
+        return "" if ssr_streaming? || @ssr.nil? || @ssr.state.blank?
+        return "" unless STATE_SCRIPT.match?(@ssr.state)
+
+        @ssr.state.html_safe
+      end
+
+      # Matches the state element rendered by the SSR service, with the page's CSP nonce
+      # when one was sent. Its JSON never contains `<`.
+      STATE_SCRIPT =
+        %r{\A<script(?: nonce="[\w+/=-]+")? type="application/json" id="[\w-]+">[^<]*</script>\z}
+
       # @!method sanitize_ssr(html)
       #   Sanitizes HTML content rendered by the SSR service.
       #   Uses a custom scrubber ({UniversalRenderer::SSR::Scrubber}) to remove potentially
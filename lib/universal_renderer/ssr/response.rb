@@ -14,6 +14,27 @@ module UniversalRenderer
     #   @return [String, nil] Raw body HTML snippet produced by the renderer.
     # @!attribute body_attrs
     #   @return [Hash, nil] A hash of attributes that should be applied to the <body> tag.
-    Response = Struct.new(:head, :body, :body_attrs, keyword_init: true)
+    # @!attribute state
+    #   @return [String, nil] Hydration state as a `<script type="application/json">` element.
+    # @!attribute response
+    #   @return [Hash, nil] Status, redirect location, headers and cookies requested by
+    #     the render (`{ status:, location:, headers:, cookies: }`), applied by
+    #     {UniversalRenderer::Renderable}.
+    # @!attribute fallback
+    #   @return [Boolean, nil] Whether the render failed and the service answered with an
+    #     empty body, so that the page is rendered on the client.
+    # @!attribute reason
+    #   @return [String, nil] The error code of the failed render, e.g. `RENDER_ERROR`.
+    Response =
+      Struct.new(
+        :head,
+        :body,
+        :body_attrs,
+        :state,
+        :response,
+        :fallback,
+        :reason,
+        keyword_init: true
+      )
   end
 end
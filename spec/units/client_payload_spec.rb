@@ -0,0 +1,46 @@
+# frozen_string_literal: true
+
+RSpec.describe UniversalRenderer::Client::Payload do
+  let(:config) { UniversalRenderer::Configuration.new }
+  let(:data) { { url: "/", props: { rows: ["row"] * 200 } } }
+
+  describe ".encode" do
+    it "encodes JSON without compression by default" do
+      body, headers = described_class.encode(data, config)
+
+      expect(JSON.parse(body)).to eq(data.deep_stringify_keys)
+      expect(headers).to eq("Content-Type" => "application/json")
+    end
+
+    it "gzips bodies above the threshold when compress_requests is enabled" do
+      config.compress_requests = true
+      body, headers = described_class.encode(data, config)
+
+      expect(headers["Content-Encoding"]).to eq("gzip")
+      expect(JSON.parse(Zlib.gunzip(body))).to eq(data.deep_stringify_keys)
+    end
+
+    it "leaves small bodies uncompressed" do
+      config.compress_requests = true
+      _body, headers = described_class.encode({ url: "/" }, config)
+
+      expect(headers).not_to have_key("Content-Encoding")
+    end
+
+    it "rejects unknown formats" do
+      config.request_format = :xml
+
+      expect { described_class.encode(data, config) }.to raise_error(ArgumentError, /:xml/)
+    end
+  end
+
+  describe ".apply" do
+    it "sets the body and headers on a request" do
+      request = Net::HTTP::Post.new("/")
+      described_class.apply(request, { url: "/" }, config)
+
+      expect(request.body).to eq('{"url":"/"}')
+      expect(request["Content-Type"]).to eq("application/json")
+    end
+  end
+end
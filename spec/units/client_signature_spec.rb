@@ -0,0 +1,36 @@
+# frozen_string_literal: true
+
+RSpec.describe UniversalRenderer::Client::Signature do
+  let(:body) { '{"url":"/"}' }
+
+  describe ".headers" do
+    it "signs the timestamp, method, path and body with HMAC-SHA256" do
+      expect(described_class.headers("post", "/batch", body, "s3cret", timestamp: 1_700_000_000)).to eq(
+        "X-SSR-Timestamp" => "1700000000",
+        "X-SSR-Signature" => "sha256=#{OpenSSL::HMAC.hexdigest("SHA256", "s3cret", "1700000000.POST./batch.#{body}")}"
+      )
+    end
+
+    it "does not sign without a secret" do
+      expect(described_class.headers("POST", "/", body, nil)).to eq({})
+      expect(described_class.headers("POST", "/", body, "")).to eq({})
+    end
+  end
+
+  describe ".sign" do
+    it "adds the headers to a request" do
+      request = Net::HTTP::Post.new("/stream?debug=1")
+      request.body = body
+
+      allow(UniversalRenderer.config).to receive(:auth_secret).and_return("s3cret")
+      described_class.sign(request)
+
+      expect(request["X-SSR-Timestamp"]).to match(/\A\d+\z/)
+      expect(request["X-SSR-Signature"]).to eq(
+        described_class.headers(
+          "POST", "/stream?debug=1", body, "s3cret", timestamp: request["X-SSR-Timestamp"].to_i
+        )["X-SSR-Signature"]
+      )
+    end
+  end
+end
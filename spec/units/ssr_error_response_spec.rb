@@ -0,0 +1,54 @@
+# frozen_string_literal: true
+
+RSpec.describe UniversalRenderer::SSR::ErrorResponse do
+  def http_response(code, body, headers = {})
+    response = Net::HTTPResponse::CODE_TO_OBJ[code.to_s].new("1.1", code.to_s, "Error")
+    headers.each { |name, value| response[name] = value }
+    allow(response).to receive(:body).and_return(body)
+    response
+  end
+
+  describe ".from_http" do
+    it "reads the error body" do
+      body = {
+        error: "Gateway Timeout",
+        code: "RENDER_TIMEOUT",
+        message: "Render timed out after 5000ms",
+        retryable: true,
+        phase: "render"
+      }.to_json
+
+      error = described_class.from_http(http_response(504, body))
+
+      expect(error.status).to eq(504)
+      expect(error.code).to eq("RENDER_TIMEOUT")
+      expect(error.phase).to eq("render")
+      expect(error).to be_retryable
+      expect(error).not_to be_fallback
+    end
+
+    it "falls back to the headers when the body is not JSON" do
+      response =
+        http_response(
+          503,
+          "Service Unavailable",
+          "X-SSR-Error-Code" => "OVERLOADED",
+          "X-SSR-Retryable" => "true",
+          "Retry-After" => "1"
+        )
+
+      error = described_class.from_http(response)
+
+      expect(error.code).to eq("OVERLOADED")
+      expect(error).to be_retryable
+      expect(error.retry_after).to eq(1)
+    end
+
+    it "treats unknown failures as not retryable" do
+      error = described_class.from_http(http_response(500, ""))
+
+      expect(error.code).to be_nil
+      expect(error).to be_fallback
+    end
+  end
+end
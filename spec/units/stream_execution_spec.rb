@@ -0,0 +1,59 @@
+# frozen_string_literal: true
+
+RSpec.describe UniversalRenderer::Client::Stream::Execution do
+  let(:response) { Struct.new(:status, :headers).new(200, {}) }
+
+  def node_response(code, headers = {})
+    node_res = Net::HTTPResponse::CODE_TO_OBJ[code.to_s].new("1.1", code.to_s, "")
+    headers.each do |name, values|
+      Array(values).each { |value| node_res.add_field(name, value) }
+    end
+    node_res
+  end
+
+  describe ".forward_response" do
+    it "applies the status, listed headers and cookies" do
+      node_res =
+        node_response(
+          404,
+          "Content-Type" => "text/html",
+          "Cache-Control" => "no-store",
+          "X-Powered-By" => "Express",
+          "X-SSR-Response-Headers" => "cache-control",
+          "Set-Cookie" => ["seen=1; Path=/", "theme=dark"]
+        )
+
+      described_class.forward_response(node_res, response)
+
+      expect(response.status).to eq(404)
+      expect(response.headers).to include("cache-control" => "no-store")
+      expect(response.headers).not_to have_key("X-Powered-By")
+      expect(Array(response.headers["Set-Cookie"]).join("\n")).to eq(
+        "seen=1; Path=/\ntheme=dark"
+      )
+    end
+
+    it "forwards redirects" do
+      described_class.forward_response(
+        node_response(302, "Location" => "/login"),
+        response
+      )
+
+      expect(response.status).to eq(302)
+      expect(response.headers["Location"]).to eq("/login")
+    end
+  end
+
+  describe ".page?" do
+    it "treats HTML with any status as a page and JSON errors as failures" do
+      expect(
+        described_class.page?(node_response(404, "Content-Type" => "text/html"))
+      ).to be(true)
+      expect(
+        described_class.page?(
+          node_response(500, "Content-Type" => "application/json")
+        )
+      ).to be(false)
+    end
+  end
+end
@@ -0,0 +1,28 @@
+# frozen_string_literal: true
+
+RSpec.describe UniversalRenderer::Client::Stream::Templates do
+  let(:template) { "<html><body><!-- SSR_BODY --></body></html>" }
+  let(:template_hash) { described_class.digest(template) }
+
+  after { described_class.forget(template_hash) }
+
+  describe ".request_body" do
+    it "sends the template inline until it is registered" do
+      expect(described_class.request_body("/", {}, template, template_hash)).to eq(
+        { url: "/", props: {}, template: template, templateHash: template_hash }
+      )
+
+      described_class.register(template_hash)
+
+      expect(described_class.request_body("/", {}, template, template_hash)).to eq(
+        { url: "/", props: {}, templateHash: template_hash }
+      )
+    end
+
+    it "always sends the template when hashing is disabled" do
+      expect(described_class.request_body("/", {}, template, nil)).to eq(
+        { url: "/", props: {}, template: template }
+      )
+    end
+  end
+end
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { createAssetResolver, renderedModules } from "./assets";
+
+const manifest = {
+  "src/client.tsx": {
+    file: "assets/client-a1.js",
+    isEntry: true,
+    imports: ["_vendor-b2.js"],
+    dynamicImports: ["src/pages/About.tsx"],
+    css: ["assets/client-c3.css"],
+  },
+  "_vendor-b2.js": { file: "assets/vendor-b2.js", css: ["assets/vendor.css"] },
+  "src/pages/About.tsx": {
+    file: "assets/About-d4.js",
+    imports: ["_vendor-b2.js"],
+  },
+};
+
+const ssrManifest = {
+  "src/pages/About.tsx": [
+    "/static/assets/About-d4.js",
+    "/static/assets/about.css",
+    "/static/assets/inter.woff2",
+  ],
+};
+
+describe("createAssetResolver", () => {
+  it("should link the entry's stylesheets and static imports", () => {
+    const assets = createAssetResolver({
+      manifest,
+      entry: "src/client.tsx",
+      base: "/static",
+    });
+
+    expect(assets.bootstrapModules).toEqual(["/static/assets/client-a1.js"]);
+    expect(assets.links()).toBe(
+      '<link rel="stylesheet" href="/static/assets/client-c3.css">' +
+        '<link rel="stylesheet" href="/static/assets/vendor.css">' +
+        '<link rel="modulepreload" href="/static/assets/vendor-b2.js">',
+    );
+    expect(assets.scripts()).toBe(
+      '<script type="module" src="/static/assets/client-a1.js"></script>',
+    );
+  });
+
+  it("should add the assets of rendered modules from the SSR manifest", () => {
+    const assets = createAssetResolver({
+      manifest,
+      ssrManifest,
+      entry: "src/client.tsx",
+      base: "/static/",
+    });
+
+    const links = assets.links(["src/pages/About.tsx", "src/unknown.tsx"]);
+
+    expect(links).toContain(
+      '<link rel="stylesheet" href="/static/assets/about.css">',
+    );
+    expect(links).toContain(
+      '<link rel="modulepreload" href="/static/assets/About-d4.js">',
+    );
+    expect(links).toContain(
+      '<link rel="preload" href="/static/assets/inter.woff2" as="font" crossorigin>',
+    );
+    expect(links.indexOf("about.css")).toBeLessThan(
+      links.indexOf("vendor-b2.js"),
+    );
+  });
+
+  it("should throw when the entry is missing from the manifest", () => {
+    expect(() =>
+      createAssetResolver({ manifest, entry: "src/main.tsx" }),
+    ).toThrow('Entry "src/main.tsx" not found in Vite manifest');
+  });
+});
+
+describe("renderedModules", () => {
+  it("should only accept iterable module collections", () => {
+    const modules = new Set(["src/App.tsx"]);
+
+    expect(renderedModules({ modules })).toBe(modules);
+    expect(renderedModules({ modules: "src/App.tsx" })).toBeUndefined();
+    expect(renderedModules(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+import { readFileSync } from "node:fs";
+
+/** A chunk of Vite's client `manifest.json`. */
+export type ViteManifestChunk = {
+  file: string;
+  src?: string;
+  isEntry?: boolean;
+  imports?: string[];
+  dynamicImports?: string[];
+  css?: string[];
+  assets?: string[];
+};
+
+/** Vite's client `manifest.json`, keyed by source path. */
+export type ViteManifest = Record<string, ViteManifestChunk>;
+
+/** Vite's `ssr-manifest.json`, mapping module ids to the asset URLs they need. */
+export type ViteSSRManifest = Record<string, string[]>;
+
+/**
+ * Options for the `assets` handler option.
+ */
+export type AssetsOptions = {
+  /** Vite's client `manifest.json`, as a file path or parsed object. */
+  manifest: string | ViteManifest;
+  /**
+   * Vite's `ssr-manifest.json`, as a file path or parsed object. Needed to preload
+   * the chunks of modules rendered for a request.
+   */
+  ssrManifest?: string | ViteSSRManifest;
+  /** Manifest key of the hydration entry, e.g. `"src/client.tsx"`. */
+  entry: string;
+  /**
+   * Public base path the client build is served from.
+   * @default "/"
+   */
+  base?: string;
+};
+
+/**
+ * Resolves the links and scripts a page needs from Vite's manifests.
+ */
+export type AssetResolver = {
+  /** URLs of the hydration entry, passed to React as `bootstrapModules`. */
+  bootstrapModules: string[];
+  /**
+   * Returns `<link>` tags for the stylesheets and chunks of the entry and of the
+   * modules rendered for a request.
+   */
+  links(modules?: Iterable<string>): string;
+  /** Returns the `<script type="module">` tags loading the hydration entry. */
+  scripts(): string;
+};
+
+const FONT = /\.(woff2?|ttf|otf)$/;
+const IMAGE = /\.(avif|gif|jpe?g|png|svg|webp)$/;
+
+const readManifest = <T>(source: string | T): T =>
+  typeof source === "string"
+    ? JSON.parse(readFileSync(source, "utf8"))
+    : source;
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+/**
+ * Renders the `<link>` tag preloading a single asset.
+ */
+function linkTag(url: string): string {
+  const href = escapeAttribute(url);
+  const path = url.split(/[?#]/)[0]!;
+
+  if (path.endsWith(".css")) return `<link rel="stylesheet" href="${href}">`;
+  if (/\.m?js$/.test(path)) return `<link rel="modulepreload" href="${href}">`;
+  if (FONT.test(path)) {
+    return `<link rel="preload" href="${href}" as="font" crossorigin>`;
+  }
+  if (IMAGE.test(path)) return `<link rel="preload" href="${href}" as="image">`;
+  return "";
+}
+
+/**
+ * Reads the client and SSR manifests once and resolves the assets of the hydration entry.
+ *
+ * The entry's stylesheets and statically imported chunks are always linked. Module ids
+ * collected during a render are looked up in the SSR manifest, so route-level chunks are
+ * preloaded as well.
+ *
+ * @param options - Manifests, hydration entry and public base path
+ * @returns Resolver shared by every request
+ * @throws {Error} When the entry is not part of the manifest
+ */
+export function createAssetResolver(options: AssetsOptions): AssetResolver {
+  const manifest = readManifest<ViteManifest>(options.manifest);
+  const ssrManifest = options.ssrManifest
+    ? readManifest<ViteSSRManifest>(options.ssrManifest)
+    : {};
+  const base = (options.base ?? "/").replace(/\/?$/, "/");
+
+  const entry = manifest[options.entry];
+  if (!entry) {
+    throw new Error(`Entry "${options.entry}" not found in Vite manifest`);
+  }
+
+  const entryFile = base + entry.file;
+  const stylesheets = new Set<string>();
+  const chunks = new Set<string>();
+
+  // Walk the static imports of the entry, collecting their files and stylesheets
+  const visit = (key: string, seen: Set<string>) => {
+    const chunk = manifest[key];
+    if (!chunk || seen.has(key)) return;
+    seen.add(key);
+
+    for (const css of chunk.css ?? []) stylesheets.add(base + css);
+    for (const imported of chunk.imports ?? []) {
+      const file = manifest[imported]?.file;
+      if (file) chunks.add(base + file);
+      visit(imported, seen);
+    }
+  };
+  visit(options.entry, new Set());
+
+  const entryUrls = [...stylesheets, ...chunks];
+
+  return {
+    bootstrapModules: [entryFile],
+
+    links(modules) {
+      const urls = new Set(entryUrls);
+      for (const id of modules ?? []) {
+        for (const url of ssrManifest[id] ?? []) {
+          if (url !== entryFile) urls.add(url);
+        }
+      }
+
+      // Stylesheets go first so they are requested before any script
+      const tags = Array.from(urls, linkTag).filter(Boolean);
+      return [
+        ...tags.filter((tag) => tag.includes('rel="stylesheet"')),
+        ...tags.filter((tag) => !tag.includes('rel="stylesheet"')),
+      ].join("");
+    },
+
+    scripts() {
+      return `<script type="module" src="${escapeAttribute(entryFile)}"></script>`;
+    },
+  };
+}
+
+/**
+ * Returns the module ids recorded on a render context, following Vite's
+ * `ctx.modules` convention.
+ */
+export function renderedModules(
+  context: Record<string, any> | undefined,
+): Iterable<string> | undefined {
+  const modules = context?.modules;
+  return modules &&
+    typeof modules !== "string" &&
+    typeof modules[Symbol.iterator] === "function"
+    ? modules
+    : undefined;
+}
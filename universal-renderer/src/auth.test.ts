@@ -0,0 +1,134 @@
+// @vitest-environment node
+import express from "express";
+import { describe, expect, it, vi } from "vitest";
+
+import { AuthenticationError } from "@/errors";
+import { listen } from "@/test/http";
+import {
+  captureRawBody,
+  createAuthMiddleware,
+  resolveAuth,
+  SIGNATURE_HEADER,
+  signRequest,
+  TIMESTAMP_HEADER,
+  verifyRequest,
+} from "./auth";
+
+const body = JSON.stringify({ url: "/" });
+const request = { method: "POST", path: "/", body };
+const now = () => Math.floor(Date.now() / 1000);
+
+const verify = (
+  headers: Record<string, string>,
+  secret: string | string[] = "s3cret",
+  signed = request,
+) =>
+  verifyRequest(
+    { secret },
+    signed,
+    headers[TIMESTAMP_HEADER],
+    headers[SIGNATURE_HEADER],
+  );
+
+describe("signRequest / verifyRequest", () => {
+  it("should accept requests signed with the shared secret", () => {
+    const headers = signRequest(request, "s3cret");
+
+    expect(headers[SIGNATURE_HEADER]).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(() => verify(headers)).not.toThrow();
+  });
+
+  it("should reject unsigned, tampered and foreign requests", () => {
+    expect(() => verify({})).toThrow("Request is not signed");
+    expect(() =>
+      verify(signRequest(request, "s3cret"), "s3cret", {
+        ...request,
+        body: '{"url":"/admin"}',
+      }),
+    ).toThrow("Request signature is invalid");
+    expect(() => verify(signRequest(request, "other"))).toThrow(
+      AuthenticationError,
+    );
+  });
+
+  it("should reject signatures replayed against another method or route", () => {
+    const headers = signRequest(request, "s3cret");
+
+    expect(() =>
+      verify(headers, "s3cret", { ...request, path: "/batch" }),
+    ).toThrow("Request signature is invalid");
+    expect(() =>
+      verify(headers, "s3cret", { ...request, method: "PUT" }),
+    ).toThrow("Request signature is invalid");
+  });
+
+  it("should reject signatures outside the replay window", () => {
+    expect(() => verify(signRequest(request, "s3cret", now() - 301))).toThrow(
+      "Request signature has expired",
+    );
+    expect(() => verify(signRequest(request, "s3cret", now() + 301))).toThrow(
+      "Request signature has expired",
+    );
+    expect(() =>
+      verifyRequest(
+        { secret: "s3cret", maxAge: 600 },
+        request,
+        String(now() - 301),
+        signRequest(request, "s3cret", now() - 301)[SIGNATURE_HEADER],
+      ),
+    ).not.toThrow();
+  });
+
+  it("should accept any of several secrets during rotation", () => {
+    expect(() =>
+      verify(signRequest(request, "old"), ["new", "old"]),
+    ).not.toThrow();
+  });
+});
+
+describe("resolveAuth", () => {
+  it("should fall back to SSR_AUTH_SECRET unless disabled", () => {
+    vi.stubEnv("SSR_AUTH_SECRET", "from-env");
+    try {
+      expect(resolveAuth(undefined)).toEqual({ secret: "from-env" });
+      expect(resolveAuth({ secret: "option" })).toEqual({ secret: "option" });
+      expect(resolveAuth(false)).toBeUndefined();
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+describe("createAuthMiddleware", () => {
+  it("should only let signed requests through to custom routes", async () => {
+    const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+    const app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.post(
+      "/render",
+      createAuthMiddleware({ secret: "s3cret" }, logger),
+      (req, res) => res.json({ url: req.body.url }),
+    );
+    const server = await listen(app);
+
+    try {
+      const unsigned = await server.post("/render", { url: "/" });
+      expect(unsigned.status).toBe(401);
+      expect(unsigned.headers.get("x-ssr-error-code")).toBe("UNAUTHORIZED");
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ err: expect.any(AuthenticationError) }),
+        "Unauthorized request",
+      );
+
+      const signed = await server.post(
+        "/render",
+        { url: "/" },
+        signRequest({ ...request, path: "/render" }, "s3cret"),
+      );
+      expect(signed.status).toBe(200);
+      expect(await signed.json()).toEqual({ url: "/" });
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,235 @@
+import type { RequestHandler } from "express";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+
+import { AuthenticationError, sendError } from "@/errors";
+import { defaultLogger, requestLogger } from "@/logger";
+import type { Logger } from "@/types";
+
+/** Request header carrying the Unix time in seconds at which a request was signed. */
+export const TIMESTAMP_HEADER = "x-ssr-timestamp";
+
+/** Request header carrying the `sha256=<hex>` HMAC signature of a request. */
+export const SIGNATURE_HEADER = "x-ssr-signature";
+
+/** Environment variable `createServer` reads the shared secret from. */
+export const AUTH_SECRET_ENV = "SSR_AUTH_SECRET";
+
+/**
+ * Shared-secret request signing between the Rails client and the SSR server.
+ */
+export type AuthOptions = {
+  /** The shared secret, or several to rotate secrets without downtime. */
+  secret: string | string[];
+  /**
+   * How long a signature stays valid, in seconds. Requests signed longer ago, or too
+   * far in the future, are rejected as replays.
+   * @default 300
+   */
+  maxAge?: number;
+};
+
+/**
+ * The parts of a request covered by its signature.
+ */
+export type SignedRequest = {
+  /** The HTTP method, e.g. `POST`. */
+  method: string;
+  /** The path the request is sent to, including its query string, e.g. `/batch`. */
+  path: string;
+  /** The exact request body as sent, compressed if it is. */
+  body: string | Buffer;
+};
+
+const sign = (secret: string, timestamp: string, request: SignedRequest) =>
+  createHmac("sha256", secret)
+    .update(`${timestamp}.${request.method.toUpperCase()}.${request.path}.`)
+    .update(request.body)
+    .digest("hex");
+
+/**
+ * Signs a request with the shared secret.
+ *
+ * The signature is an HMAC-SHA256 over `<timestamp>.<METHOD>.<path>.<body>`, sent with
+ * the timestamp so that the server can reject old requests, and a signed body cannot be
+ * replayed against another route.
+ *
+ * @param request - The method, path and exact body of the request that is sent
+ * @param secret - The shared secret
+ * @param timestamp - Unix time in seconds; defaults to now
+ * @returns The `X-SSR-Timestamp` and `X-SSR-Signature` headers
+ */
+export function signRequest(
+  request: SignedRequest,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): Record<string, string> {
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: `sha256=${sign(secret, String(timestamp), request)}`,
+  };
+}
+
+/**
+ * Verifies the signature of a request.
+ *
+ * @param options - The shared secrets and maximum signature age
+ * @param request - The method, path and raw body of the request as received
+ * @param timestamp - The `X-SSR-Timestamp` header
+ * @param signature - The `X-SSR-Signature` header
+ * @throws {AuthenticationError} When the signature is missing, expired or does not match
+ */
+export function verifyRequest(
+  options: AuthOptions,
+  request: SignedRequest,
+  timestamp: string | null | undefined,
+  signature: string | null | undefined,
+): void {
+  if (!timestamp || !signature) {
+    throw new AuthenticationError("Request is not signed");
+  }
+
+  const signedAt = Number(timestamp);
+  const maxAge = options.maxAge ?? 300;
+  if (
+    !/^\d+$/.test(timestamp) ||
+    Math.abs(Date.now() / 1000 - signedAt) > maxAge
+  ) {
+    throw new AuthenticationError("Request signature has expired");
+  }
+
+  const received = Buffer.from(signature.replace(/^sha256=/, ""), "hex");
+  const secrets = Array.isArray(options.secret)
+    ? options.secret
+    : [options.secret];
+
+  const valid = secrets.some((secret) => {
+    const expected = Buffer.from(sign(secret, timestamp, request), "hex");
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  });
+  if (!valid) throw new AuthenticationError("Request signature is invalid");
+}
+
+/**
+ * Keeps the raw bytes of request bodies for signature verification. Pass it as the
+ * `verify` option of `express.json()` or `createBodyParser()` in apps using
+ * {@link createAuthMiddleware}.
+ *
+ * @example
+ * ```typescript
+ * app.use(express.json({ verify: captureRawBody }));
+ * ```
+ */
+export function captureRawBody(
+  req: IncomingMessage,
+  _res: unknown,
+  buf: Buffer,
+) {
+  (req as IncomingMessage & { rawBody?: Buffer }).rawBody = buf;
+}
+
+/**
+ * Creates a `verify` hook for `createBodyParser()` that keeps the raw body like
+ * {@link captureRawBody} and verifies the signature of compressed bodies right away,
+ * so bodies that are not signed are never decompressed. Other bodies are verified by
+ * {@link createAuthMiddleware} on the routes it protects.
+ *
+ * @param options - The shared secrets and maximum signature age
+ * @returns The hook, throwing {@link AuthenticationError} for compressed bodies that are
+ *   not signed correctly
+ *
+ * @example
+ * ```typescript
+ * app.use(createBodyParser({ verify: verifyRawBody({ secret }) }));
+ * ```
+ */
+export function verifyRawBody(
+  options: AuthOptions,
+): (req: IncomingMessage, res: unknown, buf: Buffer) => void {
+  return (req, res, buf) => {
+    captureRawBody(req, res, buf);
+
+    const encoding = req.headers["content-encoding"]?.trim().toLowerCase();
+    if (!encoding || encoding === "identity") return;
+
+    const express = req as IncomingMessage & { originalUrl?: string };
+    verifyRequest(
+      options,
+      {
+        method: req.method ?? "POST",
+        path: express.originalUrl ?? req.url ?? "/",
+        body: buf,
+      },
+      headerValue(req.headers[TIMESTAMP_HEADER]),
+      headerValue(req.headers[SIGNATURE_HEADER]),
+    );
+  };
+}
+
+const headerValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * Resolves the auth configuration of a server: the `auth` option, or the
+ * `SSR_AUTH_SECRET` environment variable when the option is omitted.
+ *
+ * @returns The options, or `undefined` when requests are not authenticated
+ */
+export function resolveAuth(
+  auth: AuthOptions | false | undefined,
+): AuthOptions | undefined {
+  if (auth === false) return undefined;
+  if (auth) return auth;
+
+  const secret = process.env[AUTH_SECRET_ENV];
+  return secret ? { secret } : undefined;
+}
+
+/**
+ * Creates middleware rejecting requests that are not signed with the shared secret,
+ * answering them with `401` and `UNAUTHORIZED`.
+ *
+ * `createServer` protects its rendering routes with it when `auth` is configured;
+ * mount it in front of custom routes to opt in. The raw body must be captured with
+ * {@link captureRawBody} or {@link verifyRawBody}. The signature covers the method and
+ * the full path of the request, `req.originalUrl`.
+ *
+ * @param options - The shared secrets and maximum signature age
+ * @param logger - Logger for rejected requests
+ * @returns Express middleware
+ *
+ * @example
+ * ```typescript
+ * app.use(express.json({ verify: captureRawBody }));
+ * app.post('/render', createAuthMiddleware({ secret }), createSSRHandler(options));
+ * ```
+ */
+export function createAuthMiddleware(
+  options: AuthOptions,
+  logger: Logger = defaultLogger,
+): RequestHandler {
+  return (req, res, next) => {
+    try {
+      verifyRequest(
+        options,
+        {
+          method: req.method,
+          path: req.originalUrl,
+          body: (req as typeof req & { rawBody?: Buffer }).rawBody ?? "",
+        },
+        req.get(TIMESTAMP_HEADER),
+        req.get(SIGNATURE_HEADER),
+      );
+      next();
+    } catch (error) {
+      const authError = error as AuthenticationError;
+      requestLogger(logger, req, res).warn(
+        { err: authError },
+        "Unauthorized request",
+      );
+      sendError(res, authError);
+    }
+  };
+}
@@ -0,0 +1,120 @@
+// @vitest-environment node
+import express from "express";
+import { brotliCompressSync, gzipSync } from "node:zlib";
+import { describe, expect, it, vi } from "vitest";
+
+import { captureRawBody } from "@/auth";
+import { listen } from "@/test/http";
+import { createBodyParser, parseLimit } from "./body";
+
+const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+
+const echo = async (options: Parameters<typeof createBodyParser>[0] = {}) => {
+  const app = express();
+  app.use(createBodyParser(options, logger));
+  app.post("/", (req, res) =>
+    res.json({ body: req.body, raw: (req as any).rawBody?.length }),
+  );
+  return listen(app);
+};
+
+const send = (
+  url: string,
+  body: Buffer,
+  headers: Record<string, string> = {},
+) =>
+  fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body,
+  });
+
+describe("parseLimit", () => {
+  it("should parse byte sizes", () => {
+    expect(parseLimit(100)).toBe(100);
+    expect(parseLimit("50mb")).toBe(50 * 1024 * 1024);
+    expect(parseLimit("1.5KB")).toBe(1536);
+    expect(() => parseLimit("lots")).toThrow("Invalid body limit: lots");
+  });
+});
+
+describe("createBodyParser", () => {
+  const envelope = { url: "/", props: { rows: ["a", "b"] } };
+  const json = Buffer.from(JSON.stringify(envelope));
+
+  it("should parse gzip and brotli compressed JSON", async () => {
+    const server = await echo({ verify: captureRawBody });
+
+    try {
+      const gzip = gzipSync(json);
+      const gzipped = await send(server.url, gzip, {
+        "content-encoding": "gzip",
+      });
+      expect(await gzipped.json()).toEqual({
+        body: envelope,
+        raw: gzip.length,
+      });
+
+      const brotli = await send(server.url, brotliCompressSync(json), {
+        "content-encoding": "br",
+      });
+      expect((await brotli.json()).body).toEqual(envelope);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should parse MessagePack bodies", async () => {
+    const server = await echo();
+
+    try {
+      // { url: "/" }
+      const body = Buffer.from([0x81, 0xa3, ...Buffer.from("url"), 0xa1, 0x2f]);
+      const res = await send(server.url, body, {
+        "content-type": "application/msgpack",
+      });
+      expect((await res.json()).body).toEqual({ url: "/" });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should enforce the limit before and after decompression", async () => {
+    const server = await echo({ limit: "1kb" });
+
+    try {
+      const large = await send(server.url, Buffer.alloc(2048, " "));
+      expect(large.status).toBe(413);
+      expect((await large.json()).code).toBe("PAYLOAD_TOO_LARGE");
+
+      const bomb = gzipSync(`{"pad":"${"x".repeat(4096)}"}`);
+      expect(bomb.length).toBeLessThan(1024);
+      const expanded = await send(server.url, bomb, {
+        "content-encoding": "gzip",
+      });
+      expect(expanded.status).toBe(413);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should answer malformed bodies with 400", async () => {
+    const server = await echo();
+
+    try {
+      const invalid = await send(server.url, Buffer.from("{"));
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toMatchObject({
+        code: "VALIDATION_ERROR",
+        field: "body",
+      });
+
+      const encoding = await send(server.url, json, {
+        "content-encoding": "zstd",
+      });
+      expect((await encoding.json()).field).toBe("content-encoding");
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,221 @@
+import type { RequestHandler } from "express";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { promisify } from "node:util";
+import { brotliDecompress, gunzip, inflate, type ZlibOptions } from "node:zlib";
+
+import {
+  PayloadTooLargeError,
+  sendError,
+  SSRError,
+  ValidationError,
+} from "@/errors";
+import { defaultLogger, requestLogger } from "@/logger";
+import { decodeMsgpack, MSGPACK_TYPES } from "@/msgpack";
+import type { Logger } from "@/types";
+
+/**
+ * Options for {@link createBodyParser}.
+ */
+export type BodyParserOptions = {
+  /**
+   * Maximum size of a request body, before and after decompression, as bytes or a
+   * string such as `"50mb"`.
+   * @default "50mb"
+   */
+  limit?: number | string;
+
+  /**
+   * Called with the raw body as received, before it is decompressed or parsed,
+   * e.g. {@link captureRawBody} for request signing.
+   */
+  verify?: (req: IncomingMessage, res: ServerResponse, buf: Buffer) => void;
+};
+
+const DECOMPRESS: Record<
+  string,
+  (buf: Buffer, options: ZlibOptions) => Promise<Buffer>
+> = {
+  gzip: promisify(gunzip),
+  "x-gzip": promisify(gunzip),
+  deflate: promisify(inflate),
+  br: promisify(brotliDecompress),
+};
+
+const UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Parses a body limit such as `"50mb"` into bytes.
+ *
+ * @throws {TypeError} When the limit cannot be parsed
+ */
+export function parseLimit(limit: number | string): number {
+  if (typeof limit === "number") return limit;
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(limit);
+  if (!match) throw new TypeError(`Invalid body limit: ${limit}`);
+  return Math.floor(Number(match[1]) * UNITS[(match[2] ?? "b").toLowerCase()]!);
+}
+
+/** Reads a request body, failing as soon as it exceeds the limit. */
+function readRaw(req: IncomingMessage, limit: number): Promise<Buffer> {
+  if (Number(req.headers["content-length"]) > limit) {
+    return Promise.reject(new PayloadTooLargeError(limit));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.off("data", onData);
+        reject(new PayloadTooLargeError(limit));
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+/** Undoes the `Content-Encoding` of a body, keeping the result within the limit. */
+async function decompress(
+  raw: Buffer,
+  encoding: string,
+  limit: number,
+): Promise<Buffer> {
+  if (encoding === "identity") return raw;
+
+  const decode = DECOMPRESS[encoding];
+  if (!decode) {
+    throw new ValidationError(
+      `Unsupported content encoding: ${encoding}`,
+      "content-encoding",
+    );
+  }
+
+  try {
+    return await decode(raw, { maxOutputLength: limit });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new PayloadTooLargeError(limit);
+    }
+    throw new ValidationError(`Request body is not valid ${encoding}`, "body");
+  }
+}
+
+/**
+ * Returns the lowercased media type of a `Content-Type` header, without parameters.
+ */
+export function mediaType(contentType: string | null | undefined): string {
+  return (contentType ?? "").split(";")[0]!.trim().toLowerCase();
+}
+
+/**
+ * Decodes a request body as received: undoes its `Content-Encoding` within the limit,
+ * then parses it as MessagePack for the MessagePack media types and as JSON otherwise.
+ * Empty JSON bodies decode to `{}`.
+ *
+ * @param raw - The body as received
+ * @param type - The media type of the body, see {@link mediaType}
+ * @param encoding - The `Content-Encoding` header
+ * @param limit - Maximum size of the decompressed body in bytes
+ * @returns The parsed body
+ * @throws {PayloadTooLargeError} When the decompressed body exceeds the limit
+ * @throws {ValidationError} When the encoding is unsupported or the body is malformed
+ */
+export async function decodeBody(
+  raw: Buffer,
+  type: string,
+  encoding: string | null | undefined,
+  limit: number,
+): Promise<unknown> {
+  const msgpack = MSGPACK_TYPES.has(type);
+  const data = await decompress(
+    raw,
+    (encoding ?? "identity").trim().toLowerCase(),
+    limit,
+  );
+
+  try {
+    return msgpack
+      ? decodeMsgpack(data)
+      : data.length
+        ? JSON.parse(data.toString("utf8"))
+        : {};
+  } catch {
+    throw new ValidationError(
+      `Request body must be valid ${msgpack ? "MessagePack" : "JSON"}`,
+      "body",
+    );
+  }
+}
+
+/**
+ * Creates middleware parsing JSON and MessagePack request bodies into `req.body`.
+ *
+ * Bodies may be compressed with `Content-Encoding: gzip`, `deflate` or `br`. The limit
+ * applies to the body as received and once decompressed, so small compressed bodies
+ * cannot expand beyond it. MessagePack is accepted as `application/msgpack`,
+ * `application/x-msgpack` or `application/vnd.msgpack`; other content types are left
+ * to later middleware. Oversized bodies are answered with `413` and `PAYLOAD_TOO_LARGE`,
+ * malformed ones with `400` and `VALIDATION_ERROR`.
+ *
+ * @param options - Body limit and raw body hook
+ * @param logger - Logger for rejected bodies
+ * @returns Express middleware
+ *
+ * @example
+ * ```typescript
+ * app.use(createBodyParser({ limit: '100mb' }));
+ * ```
+ */
+export function createBodyParser(
+  options: BodyParserOptions = {},
+  logger: Logger = defaultLogger,
+): RequestHandler {
+  const limit = parseLimit(options.limit ?? "50mb");
+
+  return async (req, res, next) => {
+    const type = mediaType(req.headers["content-type"]);
+    const msgpack = MSGPACK_TYPES.has(type);
+    const json = type === "application/json" || type.endsWith("+json");
+    if ((!json && !msgpack) || req.method === "GET" || req.method === "HEAD") {
+      return next();
+    }
+
+    try {
+      const raw = await readRaw(req, limit);
+      options.verify?.(req, res, raw);
+
+      req.body = await decodeBody(
+        raw,
+        type,
+        req.headers["content-encoding"],
+        limit,
+      );
+      next();
+    } catch (error) {
+      if (!(error instanceof SSRError)) return next(error);
+
+      requestLogger(logger, req, res).warn(
+        { field: error.field, err: error },
+        "Invalid request body",
+      );
+      // The rest of an oversized body is not read
+      if (error instanceof PayloadTooLargeError) {
+        res.setHeader("Connection", "close");
+      }
+      sendError(res, error);
+    }
+  };
+}
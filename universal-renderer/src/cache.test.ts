@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+import { createMemoryCache } from "./cache";
+
+describe("createMemoryCache", () => {
+  it("should evict least recently used entries once the byte limit is exceeded", () => {
+    const store = createMemoryCache({ maxBytes: 80 });
+
+    store.set("a", { body: "x".repeat(20) });
+    store.set("b", { body: "y".repeat(20) });
+    store.get("a");
+    store.set("c", { body: "z".repeat(20) });
+
+    expect(store.get("a")).toBeDefined();
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBeDefined();
+  });
+
+  it("should expire entries after their ttl", () => {
+    const store = createMemoryCache();
+
+    store.set("a", { body: "x" }, -1);
+
+    expect(store.get("a")).toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+import { createHash } from "node:crypto";
+
+import type {
+  Logger,
+  RenderCacheOptions,
+  RenderCacheStore,
+  RenderOutput,
+} from "@/types";
+
+/** Response header reporting whether a render was served from the cache. */
+export const CACHE_HEADER = "X-SSR-Cache";
+
+/** Cache status reported in the {@link CACHE_HEADER} response header. */
+export type CacheStatus = "HIT" | "MISS" | "BYPASS";
+
+/**
+ * Options for the built-in in-memory cache store.
+ */
+export type MemoryCacheOptions = {
+  /**
+   * Maximum total size of cached entries in bytes. Least recently used entries
+   * are evicted first; entries larger than this are never stored.
+   * @default 52428800 (50 MB)
+   */
+  maxBytes?: number;
+};
+
+type MemoryCacheEntry = {
+  value: RenderOutput;
+  size: number;
+  expiresAt: number;
+};
+
+/**
+ * Creates an in-memory LRU cache store bounded by the byte size of its entries.
+ *
+ * @param options - Configuration options for the memory cache
+ * @returns A cache store usable as the `cache.store` option
+ *
+ * @example
+ * ```typescript
+ * createServer({
+ *   ...options,
+ *   cache: { store: createMemoryCache({ maxBytes: 10 * 1024 * 1024 }), ttl: 60_000 }
+ * });
+ * ```
+ */
+export function createMemoryCache(
+  options: MemoryCacheOptions = {},
+): RenderCacheStore {
+  const maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+  const entries = new Map<string, MemoryCacheEntry>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    totalBytes -= entry.size;
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return undefined;
+      }
+
+      // Re-insert to mark the entry as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value, ttl) {
+      remove(key);
+
+      const size =
+        Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(value));
+      if (size > maxBytes) return;
+
+      entries.set(key, {
+        value,
+        size,
+        expiresAt: ttl ? Date.now() + ttl : Infinity,
+      });
+      totalBytes += size;
+
+      // Map iteration order is insertion order, so the first key is the least recently used
+      for (const oldest of entries.keys()) {
+        if (totalBytes <= maxBytes) break;
+        remove(oldest);
+      }
+    },
+  };
+}
+
+/**
+ * Default cache key: a hash of the URL and props.
+ */
+function defaultCacheKey(url: string, props: Record<string, any>): string {
+  return createHash("sha256")
+    .update(JSON.stringify([url, props]))
+    .digest("hex");
+}
+
+/**
+ * Returns the cached output for `url` and `props`, rendering and storing it on a miss.
+ *
+ * Only successful renders are stored, and only when `cacheable` allows it after the
+ * render; other renders are reported as a bypass. Store failures are logged and treated
+ * as a bypass so that an unavailable cache never fails a render.
+ *
+ * @param cache - Cache configuration, with the store already resolved
+ * @param url - The URL being rendered
+ * @param props - Additional props passed from the client
+ * @param render - Produces the output on a miss
+ * @param log - Logger for store failures
+ * @param cacheable - Whether the output of the render may be stored
+ * @returns The output and the cache status
+ */
+export async function renderWithCache(
+  cache: RenderCacheOptions & { store: RenderCacheStore },
+  url: string,
+  props: Record<string, any>,
+  render: () => Promise<RenderOutput>,
+  log: Logger,
+  cacheable: (output: RenderOutput) => boolean = () => true,
+): Promise<{ output: RenderOutput; status: CacheStatus }> {
+  const key = (cache.cacheKey ?? defaultCacheKey)(url, props);
+  if (key == null) {
+    return { output: await render(), status: "BYPASS" };
+  }
+
+  try {
+    const cached = await cache.store.get(key);
+    if (cached) return { output: cached, status: "HIT" };
+  } catch (error) {
+    log.warn({ url, err: error }, "Cache read failed");
+    return { output: await render(), status: "BYPASS" };
+  }
+
+  const output = await render();
+  if (!cacheable(output)) return { output, status: "BYPASS" };
+
+  try {
+    await cache.store.set(key, output, cache.ttl);
+  } catch (error) {
+    log.warn({ url, err: error }, "Cache write failed");
+  }
+
+  return { output, status: "MISS" };
+}
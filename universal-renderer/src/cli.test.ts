@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { run } from "./cli";
+import { SSR_MARKERS } from "./constants";
+
+const entry = join(__dirname, "test/fixtures/render-worker.mjs");
+
+describe("run", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "cli-"));
+    await writeFile(
+      join(dir, "index.html"),
+      `<body>${SSR_MARKERS.BODY}</body>`,
+    );
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should prerender the given URLs and exit with 1 when a page failed", async () => {
+    await writeFile(
+      join(dir, "routes.json"),
+      JSON.stringify([{ url: "/broken", props: { fail: true } }]),
+    );
+
+    const code = await run([
+      "prerender",
+      entry,
+      "--template",
+      join(dir, "index.html"),
+      "--out",
+      join(dir, "out"),
+      "-u",
+      "/about",
+      "--routes",
+      join(dir, "routes.json"),
+    ]);
+
+    expect(code).toBe(1);
+    expect(await readFile(join(dir, "out/about/index.html"), "utf8")).toBe(
+      "<body><p>/about</p></body>",
+    );
+    expect(console.log).toHaveBeenLastCalledWith(
+      `Prerendered 1 pages to ${join(dir, "out")}, 1 failed`,
+    );
+  });
+
+  it("should exit with 2 on usage errors", async () => {
+    expect(await run(["prerender", entry])).toBe(2);
+    expect(await run(["--unknown"])).toBe(2);
+    for (const concurrency of ["abc", "0", "-1"]) {
+      expect(
+        await run([
+          "prerender",
+          entry,
+          "-t",
+          join(dir, "index.html"),
+          "-o",
+          join(dir, "out"),
+          "--concurrency",
+          concurrency,
+        ]),
+      ).toBe(2);
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { readFile } from "node:fs/promises";
+import { isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+
+import { prerender, type PrerenderRoute } from "@/prerender";
+import type { SSREntryModule } from "@/types";
+
+const USAGE = `Usage: universal-renderer prerender <entry> [options]
+
+Renders URLs with the setup/render (or streamCallbacks) exports of <entry>
+and writes them as .html files.
+
+Options:
+  -t, --template <file>     HTML template containing the SSR markers (required)
+  -o, --out <dir>           Output directory (required)
+  -u, --url <url>           URL to render, may be repeated
+  -r, --routes <file>       JSON array of URLs or { url, props } objects
+  -s, --sitemap <file>      sitemap.xml whose <loc> URLs are rendered
+  -c, --concurrency <n>     Pages rendered at once (default 4)
+      --timeout <ms>        Deadline per page
+  -h, --help                Show this message
+`;
+
+const moduleUrl = (path: string) =>
+  pathToFileURL(isAbsolute(path) ? path : resolve(path)).href;
+
+// Parses a numeric option, returning `null` when it is not a positive integer
+const positiveInteger = (value: string | undefined) => {
+  if (value === undefined) return undefined;
+  return /^[1-9]\d*$/.test(value) ? Number(value) : null;
+};
+
+/**
+ * Runs the `universal-renderer` command line.
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @returns The process exit code: `1` when any page failed, `2` for usage errors
+ */
+export async function run(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        template: { type: "string", short: "t" },
+        out: { type: "string", short: "o" },
+        url: { type: "string", short: "u", multiple: true },
+        routes: { type: "string", short: "r" },
+        sitemap: { type: "string", short: "s" },
+        concurrency: { type: "string", short: "c" },
+        timeout: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, entry] = positionals;
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== "prerender" || !entry || !values.template || !values.out) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  for (const option of ["concurrency", "timeout"] as const) {
+    if (positiveInteger(values[option]) === null) {
+      console.error(`--${option} must be a positive integer\n\n${USAGE}`);
+      return 2;
+    }
+  }
+
+  const mod = await import(moduleUrl(entry));
+  const callbacks: SSREntryModule = "setup" in mod ? mod : mod.default;
+
+  const routes: Array<string | PrerenderRoute> = [...(values.url ?? [])];
+  if (values.routes) {
+    routes.push(...JSON.parse(await readFile(values.routes, "utf8")));
+  }
+
+  const { pages, failures } = await prerender({
+    ...callbacks,
+    routes,
+    sitemap: values.sitemap,
+    template: await readFile(values.template, "utf8"),
+    outDir: values.out,
+    concurrency: positiveInteger(values.concurrency) ?? undefined,
+    timeout: positiveInteger(values.timeout) ?? undefined,
+  });
+
+  console.log(
+    `Prerendered ${pages.length} pages to ${values.out}, ${failures.length} failed`,
+  );
+  return failures.length ? 1 : 0;
+}
@@ -0,0 +1,4 @@
+/**
+ * Browser entry point, importable as `universal-renderer/client` without pulling in the server.
+ */
+export { parseState, readState, STATE_SCRIPT_ID } from "./state";
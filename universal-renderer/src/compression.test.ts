@@ -0,0 +1,150 @@
+// @vitest-environment node
+import express from "express";
+import { randomBytes } from "node:crypto";
+import { once } from "node:events";
+import { request, type IncomingMessage } from "node:http";
+import { brotliDecompressSync, createGunzip } from "node:zlib";
+import { describe, expect, it } from "vitest";
+
+import { listen } from "@/test/http";
+import { createCompressionMiddleware, negotiateEncoding } from "./compression";
+
+/** Requests a path without decoding the response, unlike `fetch`. */
+const get = (url: string, encoding: string) =>
+  new Promise<IncomingMessage>((resolve, reject) => {
+    request(url, { headers: { "accept-encoding": encoding } }, resolve)
+      .on("error", reject)
+      .end();
+  });
+
+const collect = async (stream: NodeJS.ReadableStream) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+describe("negotiateEncoding", () => {
+  it("should prefer Brotli and honour quality values", () => {
+    expect(negotiateEncoding("gzip, deflate, br")).toBe("br");
+    expect(negotiateEncoding("br;q=0.5, gzip")).toBe("gzip");
+    expect(negotiateEncoding("*")).toBe("br");
+    expect(negotiateEncoding("identity")).toBeUndefined();
+    expect(negotiateEncoding(undefined)).toBeUndefined();
+  });
+});
+
+describe("createCompressionMiddleware", () => {
+  const large = { body: "<p>row</p>".repeat(200) };
+
+  it("should compress responses above the threshold", async () => {
+    const app = express();
+    app.use(createCompressionMiddleware());
+    app.get("/large", (_req, res) => res.json(large));
+    app.get("/small", (_req, res) => res.json({ body: "<p>row</p>" }));
+    const server = await listen(app);
+
+    try {
+      const br = await get(`${server.url}/large`, "br, gzip");
+      expect(br.headers["content-encoding"]).toBe("br");
+      expect(br.headers.vary).toBe("Accept-Encoding");
+      const body = brotliDecompressSync(await collect(br));
+      expect(JSON.parse(body.toString())).toEqual(large);
+
+      const small = await get(`${server.url}/small`, "br, gzip");
+      expect(small.headers["content-encoding"]).toBeUndefined();
+      expect(JSON.parse((await collect(small)).toString())).toEqual({
+        body: "<p>row</p>",
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should flush streamed chunks through the compressor", async () => {
+    let reveal!: () => void;
+    const revealed = new Promise<void>((resolve) => (reveal = resolve));
+    const app = express();
+    app.use(createCompressionMiddleware());
+    app.get("/stream", async (_req, res) => {
+      res.type("html");
+      res.write("<p>Loading</p>");
+      // Only continues once the client decoded the shell
+      await revealed;
+      res.end("<p>Ready</p>");
+    });
+    const server = await listen(app);
+
+    try {
+      const res = await get(`${server.url}/stream`, "gzip");
+      expect(res.headers["content-encoding"]).toBe("gzip");
+
+      let html = "";
+      const gunzip = res.pipe(createGunzip());
+      gunzip.on("data", (chunk) => {
+        html += chunk;
+        if (html === "<p>Loading</p>") reveal();
+      });
+      await new Promise((resolve) => gunzip.on("end", resolve));
+
+      expect(html).toBe("<p>Loading</p><p>Ready</p>");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should respect backpressure from slow clients", async () => {
+    // Incompressible, so the compressed output outgrows the socket buffers
+    const body = randomBytes(16 * 1024 * 1024);
+    let written = false;
+    const app = express();
+    app.use(createCompressionMiddleware());
+    app.get("/large", async (_req, res) => {
+      res.type("text/plain");
+      for (let offset = 0; offset < body.length; offset += 64 * 1024) {
+        if (!res.write(body.subarray(offset, offset + 64 * 1024))) {
+          await once(res, "drain");
+        }
+      }
+      written = true;
+      res.end();
+    });
+    const server = await listen(app);
+
+    try {
+      const res = await get(`${server.url}/large`, "gzip");
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      // The client has not read anything, so the route is still waiting for it
+      expect(written).toBe(false);
+
+      const received = await collect(res.pipe(createGunzip()));
+      expect(received.equals(body)).toBe(true);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should stop compressing once the client disconnects", async () => {
+    let finished!: (flowing: boolean) => void;
+    const done = new Promise<boolean>((resolve) => (finished = resolve));
+    const app = express();
+    app.use(createCompressionMiddleware());
+    app.get("/stream", async (_req, res) => {
+      res.type("html");
+      res.write("<p>Loading</p>");
+      await once(res, "close");
+      finished(res.write("<p>Late</p>"));
+      res.end();
+    });
+    const server = await listen(app);
+
+    try {
+      const res = await get(`${server.url}/stream`, "gzip");
+      res.destroy();
+
+      // Writes after the disconnect hit the destroyed compressor
+      expect(await done).toBe(false);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import type { RequestHandler, Response } from "express";
+import {
+  constants,
+  createBrotliCompress,
+  createGzip,
+  type BrotliCompress,
+  type Gzip,
+} from "node:zlib";
+
+/**
+ * Options for {@link createCompressionMiddleware}.
+ */
+export type CompressionOptions = {
+  /**
+   * Responses whose complete size is known and below this many bytes are sent
+   * uncompressed. Streamed responses are always compressed.
+   * @default 1024
+   */
+  threshold?: number;
+};
+
+const COMPRESSIBLE =
+  /^(text\/|application\/(json|javascript|xml)|[^;]*\+json)/i;
+
+/**
+ * Picks the response encoding from an `Accept-Encoding` header, preferring Brotli.
+ */
+export function negotiateEncoding(
+  header: string | undefined,
+): "br" | "gzip" | undefined {
+  const accepted = new Map<string, number>();
+  for (const part of (header ?? "").split(",")) {
+    const [name = "", ...params] = part.trim().toLowerCase().split(";");
+    const q = params.find((param) => param.trim().startsWith("q="));
+    accepted.set(name, q ? Number(q.trim().slice(2)) : 1);
+  }
+
+  const quality = (name: string) =>
+    accepted.get(name) ?? accepted.get("*") ?? 0;
+  if (quality("br") > 0 && quality("br") >= quality("gzip")) return "br";
+  if (quality("gzip") > 0) return "gzip";
+  return undefined;
+}
+
+const shouldCompress = (
+  res: Response,
+  size: number | undefined,
+  threshold: number,
+) =>
+  res.statusCode !== 204 &&
+  res.statusCode !== 304 &&
+  !res.getHeader("content-encoding") &&
+  COMPRESSIBLE.test(String(res.getHeader("content-type") ?? "")) &&
+  (size === undefined || size >= threshold);
+
+/**
+ * Creates middleware compressing responses with Brotli or gzip, as accepted by the client.
+ *
+ * Every write is flushed through the compressor right away, so the chunks of a streamed
+ * render reach the client as soon as they are written instead of waiting for the
+ * compressor's buffer to fill. Compressed output is written with backpressure, so
+ * `res.write()` returns `false` while the client is slow to read it. A compressor error
+ * destroys the response, and the compressor is destroyed once the response closes.
+ * Responses written with a single `end()` below `threshold` bytes are sent as they are.
+ *
+ * @param options - Compression threshold
+ * @returns Express middleware
+ *
+ * @example
+ * ```typescript
+ * app.use(createCompressionMiddleware());
+ * ```
+ */
+export function createCompressionMiddleware(
+  options: CompressionOptions = {},
+): RequestHandler {
+  const threshold = options.threshold ?? 1024;
+
+  return (req, res, next) => {
+    const encoding = negotiateEncoding(req.headers["accept-encoding"]);
+    res.vary("Accept-Encoding");
+    if (!encoding || req.method === "HEAD") return next();
+
+    const write = res.write as (...args: unknown[]) => boolean;
+    const end = res.end as (...args: unknown[]) => Response;
+    let compressor: Gzip | BrotliCompress | undefined;
+    let started = false;
+
+    // Decides on the first write whether the response is compressed at all
+    const start = (size?: number) => {
+      started = true;
+      if (!shouldCompress(res, size, threshold)) return;
+
+      res.removeHeader("content-length");
+      res.setHeader("content-encoding", encoding);
+      compressor =
+        encoding === "br"
+          ? createBrotliCompress({
+              flush: constants.BROTLI_OPERATION_FLUSH,
+              params: { [constants.BROTLI_PARAM_QUALITY]: 4 },
+            })
+          : createGzip({ flush: constants.Z_SYNC_FLUSH });
+      const output = compressor;
+
+      // Compressed output waits for the client to read what was already sent
+      output.on("data", (chunk) => {
+        if (write.call(res, chunk)) return;
+        output.pause();
+        res.once("drain", () => output.resume());
+      });
+      output.on("end", () => end.call(res));
+      output.on("drain", () => res.emit("drain"));
+      output.on("error", (error) => res.destroy(error));
+      res.once("close", () => output.destroy());
+    };
+
+    // Splits the `(chunk, encoding?, callback?)` arguments of `write` and `end`
+    const toBuffer = (chunk: unknown, args: unknown[]) =>
+      typeof chunk === "string"
+        ? Buffer.from(
+            chunk,
+            typeof args[0] === "string" ? (args[0] as BufferEncoding) : "utf8",
+          )
+        : (chunk as Buffer);
+    const callbackOf = (args: unknown[]) =>
+      args.find((arg) => typeof arg === "function") as (() => void) | undefined;
+
+    res.write = ((chunk: unknown, ...args: unknown[]) => {
+      if (!started) start();
+      if (!compressor) return write.call(res, chunk, ...args);
+      return compressor.write(toBuffer(chunk, args), callbackOf(args));
+    }) as Response["write"];
+
+    res.end = ((chunk?: unknown, ...args: unknown[]) => {
+      const data =
+        chunk === undefined || chunk === null || typeof chunk === "function"
+          ? undefined
+          : toBuffer(chunk, args);
+      if (!started) start(data?.length ?? 0);
+      if (!compressor) return end.call(res, chunk, ...args);
+
+      const callback =
+        typeof chunk === "function" ? (chunk as () => void) : callbackOf(args);
+      if (callback) res.once("finish", callback);
+      if (data) compressor.end(data);
+      else compressor.end();
+      return res;
+    }) as Response["end"];
+
+    next();
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Runs `fn` for every item with at most `limit` calls in flight at once.
+ *
+ * Results are returned in the same order as `items`. A rejected call rejects the
+ * whole run, so callers that need per-item failures should catch inside `fn`.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls, a positive integer
+ * @param fn - Async function applied to each item
+ * @returns Promise resolving to the results in input order
+ * @throws {TypeError} When the limit is not a positive integer
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new TypeError(`Invalid concurrency: ${limit}`);
+  }
+
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,66 @@
+// @vitest-environment node
+import type { Application } from "express";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { SSR_MARKERS } from "@/constants";
+import { listen } from "@/test/http";
+import { createDevServer } from "./dev";
+
+const template = `<html><head>${SSR_MARKERS.HEAD}</head><body>${SSR_MARKERS.BODY}</body></html>`;
+
+// A stream-only entry exporting `setup` but no `render`
+const entrySource = (greeting: string) => `
+export const setup = (url) => ({ url });
+export const streamCallbacks = {
+  node: ({ url }) => "${greeting} " + url,
+};
+`;
+
+describe("createDevServer", () => {
+  let dir: string;
+  let app: Application | undefined;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "dev-"));
+    await writeFile(join(dir, "ssr.mjs"), entrySource("Hello"));
+  });
+
+  afterEach(async () => {
+    await app?.locals.vite.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should load named exports and pick up edits to the entry", async () => {
+    app = await createDevServer({
+      entry: "/ssr.mjs",
+      vite: {
+        root: dir,
+        configFile: false,
+        logLevel: "silent",
+        server: { hmr: false },
+      },
+      logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+    });
+    const server = await listen(app);
+
+    try {
+      const first = await server.post("/stream", { url: "/a", template });
+      expect(first.status).toBe(200);
+      expect(await first.text()).toContain("Hello /a");
+
+      await writeFile(join(dir, "ssr.mjs"), entrySource("Bye"));
+      await vi.waitFor(
+        async () => {
+          const next = await server.post("/stream", { url: "/a", template });
+          expect(await next.text()).toContain("Bye /a");
+        },
+        { timeout: 5000, interval: 100 },
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
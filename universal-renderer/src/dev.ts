@@ -0,0 +1,189 @@
+import express, { type ErrorRequestHandler } from "express";
+import type { ViteDevServer } from "vite";
+
+import {
+  createBatchHandler,
+  createErrorHandler,
+  createHealthHandler,
+  createSSRHandler,
+  createStreamHandler,
+} from "@/handlers";
+import {
+  createRequestLogMiddleware,
+  defaultLogger,
+  requestLogger,
+} from "@/logger";
+import { TemplateRegistry } from "@/templates";
+import type { DevServerOptions, SSREntryModule } from "@/types";
+
+/**
+ * Creates an Express server for Server-Side Rendering during development.
+ *
+ * Vite is started in middleware mode and the SSR entry module is loaded through
+ * `ssrLoadModule` on every request, so edits to components are reflected without
+ * restarting the Node process. Errors thrown from the entry module have their
+ * stack traces rewritten with `ssrFixStacktrace` to point at the original source.
+ *
+ * The entry module exports the same `setup`, `render`, `cleanup` and `streamCallbacks`
+ * used by `createServer`, as named exports or on the default export, so the production
+ * path is unchanged. The Vite server is exposed as `app.locals.vite`, e.g. to close it.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - Configuration options for the development server
+ * @returns Promise that resolves to a configured Express application
+ *
+ * @example
+ * ```typescript
+ * import { createDevServer } from 'universal-renderer';
+ *
+ * const app = await createDevServer({ entry: '/src/ssr.tsx' });
+ * app.listen(3001);
+ * ```
+ */
+export async function createDevServer<
+  TContext extends Record<string, any> = Record<string, any>,
+>(options: DevServerOptions): Promise<express.Application> {
+  if (!options.entry) {
+    throw new Error("entry module is required");
+  }
+
+  const { createServer: createViteServer } = await import("vite");
+  const vite = await createViteServer({
+    ...options.vite,
+    appType: "custom",
+    server: { ...options.vite?.server, middlewareMode: true },
+  });
+
+  const logger = options.logger ?? defaultLogger;
+  const templates = new TemplateRegistry();
+
+  const loadEntry = async (): Promise<SSREntryModule<TContext>> => {
+    const mod = await vite.ssrLoadModule(options.entry);
+    const entry = "setup" in mod ? mod : mod.default;
+    return withStacktraceFix(vite, entry ?? {});
+  };
+
+  // Errors raised while rendering are rewritten before reaching the error handler.
+  // Once a stream has started there is nothing left to respond with, so they are only logged.
+  const error: ErrorRequestHandler = (err, req, res, next) => {
+    if (err instanceof Error) vite.ssrFixStacktrace(err);
+
+    if (res.headersSent) {
+      requestLogger(logger, req, res).error({ err }, "Stream error");
+      return;
+    }
+
+    next(err);
+  };
+
+  const app = express();
+  app.locals.vite = vite;
+
+  app.use(createRequestLogMiddleware(logger));
+
+  // Vite serves client assets and HMR updates
+  app.use(vite.middlewares);
+
+  // Basic middleware
+  app.use(express.json({ limit: "50mb" }));
+  app.use(express.urlencoded({ extended: true }));
+
+  app.get("/health", createHealthHandler());
+
+  app.post(["/", "/static"], async (req, res, next) => {
+    try {
+      const entry = await loadEntry();
+      await createSSRHandler({ ...entry, logger, error })(req, res, next);
+    } catch (err) {
+      error(err, req, res, next);
+    }
+  });
+
+  app.post("/batch", async (req, res, next) => {
+    try {
+      const entry = await loadEntry();
+      await createBatchHandler({ ...entry, logger })(req, res, next);
+    } catch (err) {
+      error(err, req, res, next);
+    }
+  });
+
+  app.post("/stream", async (req, res, next) => {
+    try {
+      const entry = await loadEntry();
+      if (!entry.streamCallbacks) return next();
+
+      await createStreamHandler({
+        setup: entry.setup,
+        cleanup: entry.cleanup,
+        streamCallbacks: entry.streamCallbacks,
+        renderer: entry.renderer,
+        templates,
+        logger,
+        error,
+      })(req, res, next);
+    } catch (err) {
+      error(err, req, res, next);
+    }
+  });
+
+  // Custom middleware
+  if (options.middleware) {
+    app.use(options.middleware);
+  }
+
+  // Error handler
+  if (options.error) {
+    app.use(options.error);
+  } else {
+    app.use(createErrorHandler({ logger }));
+  }
+
+  return app;
+}
+
+/**
+ * Wraps every callback of an entry module so thrown errors carry source-mapped stack traces.
+ */
+function withStacktraceFix<TContext extends Record<string, any>>(
+  vite: ViteDevServer,
+  entry: SSREntryModule<TContext>,
+): SSREntryModule<TContext> {
+  const fix = <TArgs extends any[], TResult>(
+    fn: (...args: TArgs) => TResult,
+  ): ((...args: TArgs) => TResult) => {
+    const rewrite = (err: unknown) => {
+      if (err instanceof Error) vite.ssrFixStacktrace(err);
+      return err;
+    };
+
+    return (...args) => {
+      try {
+        const result = fn(...args);
+        if (result instanceof Promise) {
+          return result.catch((err) => {
+            throw rewrite(err);
+          }) as TResult;
+        }
+        return result;
+      } catch (err) {
+        throw rewrite(err);
+      }
+    };
+  };
+
+  const { streamCallbacks } = entry;
+
+  return {
+    setup: entry.setup && fix(entry.setup),
+    render: entry.render && fix(entry.render),
+    cleanup: entry.cleanup && fix(entry.cleanup),
+    streamCallbacks: streamCallbacks && {
+      node: streamCallbacks.node && fix(streamCallbacks.node),
+      head: streamCallbacks.head && fix(streamCallbacks.head),
+      transform: streamCallbacks.transform && fix(streamCallbacks.transform),
+      state: streamCallbacks.state && fix(streamCallbacks.state),
+    },
+    renderer: entry.renderer,
+  };
+}
@@ -0,0 +1,185 @@
+import { renderedModules, type AssetResolver } from "@/assets";
+import { SSR_MARKERS } from "@/constants";
+import { SSRError, streamErrorMarker } from "@/errors";
+import { addNonce } from "@/nonce";
+import { ResponseControl } from "@/response";
+import { stateScript } from "@/state";
+import type { SplitTemplate } from "@/templates";
+import { withTimeout } from "@/timeout";
+import type { RenderTimer } from "@/timing";
+import type {
+  LogFields,
+  Logger,
+  StreamHandlerOptions,
+  StreamMode,
+} from "@/types";
+
+/**
+ * Inputs of a single streamed document, resolved from the request by the stream route.
+ */
+export type DocumentRun = {
+  /** The split template the document is written into. */
+  template: SplitTemplate;
+  /** Whether to start writing on shell-ready or once every boundary resolved. */
+  mode: StreamMode;
+  /** The deadline in milliseconds. */
+  timeout?: number;
+  /** The CSP nonce of the request. */
+  nonce?: string;
+  /** The timer recording phase durations. */
+  timer: RenderTimer;
+  /** The client build's assets. */
+  assets?: AssetResolver;
+  /** A logger for errors raised while streaming. */
+  log: Logger;
+};
+
+/**
+ * A document that started streaming, or a redirect that was answered.
+ */
+export type DocumentStream = {
+  /** The {@link ResponseControl} passed to `setup`. */
+  response: ResponseControl;
+  /** Errors raised after the document started, as written to the error marker. */
+  errors: SSRError[];
+  /** Settles once the document ended or its destination closed. */
+  done: Promise<void>;
+};
+
+/**
+ * A document whose setup completed, for a Node or Web pipeline to render.
+ */
+export type PreparedDocument<TContext> = {
+  response: ResponseControl;
+  context: TContext;
+  /** The node to render; unset when setup redirected. */
+  node: unknown;
+  errors: SSRError[];
+  /** Runs the cleanup callback, once. */
+  cleanup(): void;
+  /** Fields describing the render, attached to every error log. */
+  failure(error: SSRError): LogFields;
+  /** The template head, with the asset links and `streamCallbacks.head` at the head marker. */
+  head(): Promise<string>;
+  /** The hydration state, error marker and template tail ending the document. */
+  end(): string;
+};
+
+/**
+ * Runs setup within the deadline and picks the node to render, the steps the Node and
+ * Web streaming pipelines share. A redirect requested by setup runs cleanup right away
+ * and leaves the node unset.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - The setup/cleanup and streaming callbacks
+ * @param url - The URL being rendered
+ * @param props - Additional props passed from the client
+ * @param run - The inputs of the document
+ * @returns The document, ready to render
+ * @throws {SSRError} When setup failed or no node could be found
+ */
+export async function prepareDocument<TContext extends Record<string, any>>(
+  options: Pick<StreamHandlerOptions<TContext>, "setup" | "cleanup"> & {
+    streamCallbacks: Omit<
+      StreamHandlerOptions<TContext>["streamCallbacks"],
+      "transform"
+    >;
+  },
+  url: string,
+  props: Record<string, any>,
+  run: DocumentRun,
+): Promise<PreparedDocument<TContext>> {
+  const { streamCallbacks } = options;
+  const { template, timer, assets, log, nonce } = run;
+  const response = new ResponseControl();
+  response.nonce = nonce;
+  const errors: SSRError[] = [];
+
+  let context: TContext | undefined;
+  let timedOut = false;
+  let cleanedUp = false;
+
+  // Cleanup may be reached from several paths, but must only run once
+  const cleanup = () => {
+    if (cleanedUp || !context || !options.cleanup) return;
+    cleanedUp = true;
+    const end = timer.start("cleanup");
+    options.cleanup(context);
+    end();
+  };
+
+  const failure = (error: SSRError) => ({
+    url,
+    code: error.code,
+    phase: error.phase,
+    duration: timer.elapsed(),
+    err: error.cause ?? error,
+  });
+
+  let node;
+  try {
+    // Set up the rendering context, releasing it if it arrives after the deadline
+    const endSetup = timer.start("setup");
+    context = await withTimeout(
+      Promise.resolve(options.setup(url, props, response)).then((value) => {
+        endSetup();
+        context = value;
+        if (timedOut) cleanup();
+        return value;
+      }),
+      run.timeout,
+      () => {
+        timedOut = true;
+      },
+    );
+
+    // Nothing to render when setup already decided to redirect
+    if (response.redirected) {
+      cleanup();
+    } else if (streamCallbacks.node) {
+      node = streamCallbacks.node(context!);
+    } else if (context && "app" in context) {
+      node = context.app;
+    } else if (context && "jsx" in context) {
+      node = context.jsx;
+    } else {
+      throw new Error("No app callback provided");
+    }
+  } catch (error) {
+    cleanup();
+    throw SSRError.from(error, timer.phase);
+  }
+
+  return {
+    response,
+    context: context!,
+    node,
+    errors,
+    cleanup,
+    failure,
+    async head() {
+      // Modules rendered into the shell are known by now
+      const head =
+        addNonce(assets?.links(renderedModules(context)) ?? "", nonce) +
+        ((await streamCallbacks.head?.(context!)) ?? "");
+      return head
+        ? template.head.replace(SSR_MARKERS.HEAD, () => head)
+        : template.head;
+    },
+    end() {
+      let html = "";
+      if (streamCallbacks.state) {
+        try {
+          const state = streamCallbacks.state(context!);
+          if (state !== undefined) html += stateScript(state);
+        } catch (error) {
+          const ssrError = SSRError.from(error, "stream");
+          errors.push(ssrError);
+          log.error(failure(ssrError), "Stream state failed");
+        }
+      }
+      if (errors.length) html += streamErrorMarker(errors);
+      return addNonce(html, nonce) + template.tail;
+    },
+  };
+}
@@ -0,0 +1,322 @@
+import type { Response } from "express";
+
+import type { ProtocolResponse, RenderPhase } from "@/types";
+
+/** Response header carrying the {@link SSRErrorCode} of a failed render. */
+export const ERROR_CODE_HEADER = "X-SSR-Error-Code";
+
+/** Response header telling clients whether a failed render may be retried. */
+export const RETRYABLE_HEADER = "X-SSR-Retryable";
+
+/**
+ * Machine-readable error codes shared by every route.
+ */
+export type SSRErrorCode =
+  | "VALIDATION_ERROR"
+  | "UNAUTHORIZED"
+  | "PAYLOAD_TOO_LARGE"
+  | "RENDER_TIMEOUT"
+  | "OVERLOADED"
+  | "TEMPLATE_UNKNOWN"
+  | "SETUP_ERROR"
+  | "RENDER_ERROR"
+  | "SHELL_ERROR"
+  | "STREAM_ERROR"
+  | "CLEANUP_ERROR"
+  | "INTERNAL_ERROR";
+
+/**
+ * The JSON shape of an {@link SSRError}, sent as the body of JSON error responses,
+ * as batch job results, and inside stream error markers.
+ */
+export type SSRErrorBody = {
+  /** Human-readable error title, e.g. `Validation Error`. */
+  error: string;
+  /** Machine-readable error code. */
+  code: SSRErrorCode;
+  /** Description of the failure. Generic for unexpected errors in production. */
+  message: string;
+  /** Whether retrying the same request may succeed; otherwise the client should fall back. */
+  retryable: boolean;
+  /** The render phase that failed, if any. */
+  phase?: RenderPhase;
+  /** The offending request field for validation errors. */
+  field?: string;
+  /** Stack trace of unexpected errors, only outside production. */
+  stack?: string;
+  /** React component stack of unexpected errors, only outside production. */
+  componentStack?: string;
+};
+
+/** Human-readable titles by HTTP status code. */
+const TITLES: Record<number, string> = {
+  400: "Validation Error",
+  401: "Unauthorized",
+  412: "Precondition Failed",
+  413: "Payload Too Large",
+  500: "Internal Server Error",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+/** Error codes for unexpected errors, by the phase they were thrown in. */
+const PHASE_CODES: Record<RenderPhase, SSRErrorCode> = {
+  setup: "SETUP_ERROR",
+  render: "RENDER_ERROR",
+  shell: "SHELL_ERROR",
+  stream: "STREAM_ERROR",
+  cleanup: "CLEANUP_ERROR",
+};
+
+/**
+ * Options describing an {@link SSRError}.
+ */
+export type SSRErrorOptions = {
+  code: SSRErrorCode;
+  /** HTTP status used when the error is sent as a response. */
+  status: number;
+  retryable?: boolean;
+  phase?: RenderPhase;
+  field?: string;
+  componentStack?: string;
+  /** Seconds after which a retry may succeed, sent as `Retry-After`. */
+  retryAfter?: number;
+  cause?: unknown;
+};
+
+/**
+ * The error model used by every handler.
+ *
+ * Errors carry a machine-readable `code`, the failed `phase`, and whether the
+ * request is `retryable`, so clients can decide between retrying and falling
+ * back to client-side rendering.
+ */
+export class SSRError extends Error {
+  readonly code: SSRErrorCode;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly field?: string;
+  readonly retryAfter?: number;
+  phase?: RenderPhase;
+  componentStack?: string;
+
+  constructor(message: string, options: SSRErrorOptions) {
+    super(message, { cause: options.cause });
+    this.name = "SSRError";
+    this.code = options.code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.phase = options.phase;
+    this.field = options.field;
+    this.retryAfter = options.retryAfter;
+    this.componentStack = options.componentStack;
+  }
+
+  /**
+   * Wraps any thrown value in an {@link SSRError}. SSR errors are returned as they are,
+   * anything else becomes a non-retryable `500` coded by the phase it was thrown in.
+   *
+   * @param error - The thrown value
+   * @param phase - The phase in progress when it was thrown
+   */
+  static from(error: unknown, phase?: RenderPhase): SSRError {
+    if (error instanceof SSRError) {
+      error.phase ??= phase;
+      return error;
+    }
+
+    const wrapped = new SSRError(
+      error instanceof Error ? error.message : String(error),
+      {
+        code: phase ? PHASE_CODES[phase] : "INTERNAL_ERROR",
+        status: 500,
+        phase,
+        cause: error,
+      },
+    );
+    if (error instanceof Error) wrapped.stack = error.stack;
+    return wrapped;
+  }
+
+  /**
+   * Serializes the error. Unexpected errors carry their stacks outside production
+   * and a generic message in production.
+   */
+  toJSON(): SSRErrorBody {
+    const isDev = process.env.NODE_ENV !== "production";
+    const expected = this.status < 500 || this.retryable;
+    const debug = isDev && !expected;
+
+    return {
+      error: TITLES[this.status] ?? "Error",
+      code: this.code,
+      message:
+        isDev || expected
+          ? this.message
+          : "Something went wrong during rendering",
+      retryable: this.retryable,
+      ...(this.phase && { phase: this.phase }),
+      ...(this.field && { field: this.field }),
+      ...(debug && this.stack && { stack: this.stack }),
+      ...(debug &&
+        this.componentStack && { componentStack: this.componentStack }),
+    };
+  }
+}
+
+/**
+ * Thrown when rendering does not finish before the configured or requested deadline.
+ */
+export class RenderTimeoutError extends SSRError {
+  /** The deadline that was exceeded, in milliseconds. */
+  readonly timeout: number;
+
+  constructor(timeout: number, phase?: RenderPhase) {
+    super(`Render timed out after ${timeout}ms`, {
+      code: "RENDER_TIMEOUT",
+      status: 504,
+      retryable: true,
+      phase,
+    });
+    this.name = "RenderTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Thrown when a render cannot be queued because the worker pool is saturated.
+ */
+export class WorkerQueueFullError extends SSRError {
+  /** The queue limit that was reached. */
+  readonly maxQueue: number;
+
+  constructor(maxQueue: number) {
+    super(`Render queue is full (${maxQueue} waiting)`, {
+      code: "OVERLOADED",
+      status: 503,
+      retryable: true,
+      retryAfter: 1,
+    });
+    this.name = "WorkerQueueFullError";
+    this.maxQueue = maxQueue;
+  }
+}
+
+/**
+ * Thrown when a request cannot get a render slot: the queue of waiting requests is
+ * full, or the request waited longer than the queue timeout. Handlers respond with
+ * `503` and `Retry-After`.
+ */
+export class RenderQueueFullError extends SSRError {
+  constructor(message: string, retryAfter = 1) {
+    super(message, {
+      code: "OVERLOADED",
+      status: 503,
+      retryable: true,
+      retryAfter,
+    });
+    this.name = "RenderQueueFullError";
+  }
+}
+
+/**
+ * Thrown when a stream request references a template by hash that is not registered.
+ * Clients retry with the template inline.
+ */
+export class TemplateUnknownError extends SSRError {
+  /** The unknown template hash. */
+  readonly hash: string;
+
+  constructor(hash: string) {
+    super(`Template ${hash} is not registered`, {
+      code: "TEMPLATE_UNKNOWN",
+      status: 412,
+      retryable: true,
+    });
+    this.name = "TemplateUnknownError";
+    this.hash = hash;
+  }
+}
+
+/**
+ * Thrown when a request body fails validation. Handlers respond with `400`
+ * and `{ error: "Validation Error", message, field }`.
+ */
+export class ValidationError extends SSRError {
+  /** Dotted path of the offending field, e.g. `url` or `props.user.id`. */
+  declare readonly field: string;
+
+  constructor(message: string, field: string) {
+    super(message, { code: "VALIDATION_ERROR", status: 400, field });
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Thrown when a request body, or its decompressed content, exceeds the body limit.
+ * Handlers respond with `413`.
+ */
+export class PayloadTooLargeError extends SSRError {
+  /** The limit that was exceeded, in bytes. */
+  readonly limit: number;
+
+  constructor(limit: number) {
+    super(`Request body exceeds the limit of ${limit} bytes`, {
+      code: "PAYLOAD_TOO_LARGE",
+      status: 413,
+      field: "body",
+    });
+    this.name = "PayloadTooLargeError";
+    this.limit = limit;
+  }
+}
+
+/**
+ * Thrown when a request is not signed with the shared secret, or its signature has
+ * expired. Handlers respond with `401`.
+ */
+export class AuthenticationError extends SSRError {
+  constructor(message: string) {
+    super(message, { code: "UNAUTHORIZED", status: 401 });
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * Sends an error as a JSON response with its status and the
+ * `X-SSR-Error-Code` and `X-SSR-Retryable` headers, plus `Retry-After` when known.
+ */
+export function sendError(res: Response, error: SSRError) {
+  const { status, headers, body } = errorResponse(error);
+  res.status(status).set(headers).json(body);
+}
+
+/**
+ * Describes the JSON response for an error independently of the HTTP framework.
+ */
+export function errorResponse(error: SSRError): ProtocolResponse {
+  return {
+    status: error.status,
+    headers: {
+      [ERROR_CODE_HEADER]: error.code,
+      [RETRYABLE_HEADER]: String(error.retryable),
+      ...(error.retryAfter !== undefined && {
+        "Retry-After": String(error.retryAfter),
+      }),
+    },
+    body: error.toJSON(),
+  };
+}
+
+/**
+ * Renders errors raised after the shell was flushed as an inline JSON script.
+ *
+ * The status code can no longer change once streaming started, so clients look for
+ * `<script type="application/json" data-ssr-error>` to detect a partial render.
+ */
+export function streamErrorMarker(errors: SSRError[]): string {
+  const json = JSON.stringify(errors.map((error) => error.toJSON()));
+  // Keep the payload from closing the script element early
+  const safe = json.replace(/</g, "\\u003c");
+  return `<script type="application/json" data-ssr-error>${safe}</script>`;
+}
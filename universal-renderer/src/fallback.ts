@@ -0,0 +1,80 @@
+import type { AssetResolver } from "@/assets";
+import { SSR_MARKERS } from "@/constants";
+import { streamErrorMarker, type SSRError, type SSRErrorCode } from "@/errors";
+import { addNonce } from "@/nonce";
+import type { SplitTemplate } from "@/templates";
+import type { RenderOutput } from "@/types";
+
+/** Response header carrying the error code of a render answered with a fallback. */
+export const FALLBACK_HEADER = "X-SSR-Fallback";
+
+/**
+ * Options of the client-side rendering fallback.
+ */
+export type FallbackOptions = {
+  /**
+   * Markup of the empty element the client app mounts into, written in place of the
+   * body marker of `/stream` templates.
+   * @default '<div id="root"></div>'
+   */
+  root?: string;
+};
+
+/** The JSON output sent instead of a failed render. */
+export type FallbackOutput = RenderOutput & {
+  fallback: true;
+  /** The error code of the failed render. */
+  reason: SSRErrorCode;
+};
+
+/**
+ * Whether a failed render is answered with a fallback. Client errors, such as invalid
+ * requests or unknown templates, are still reported, since the client has to act on them.
+ */
+export function shouldFallBack(
+  fallback: boolean | FallbackOptions | undefined,
+  error: SSRError,
+): fallback is true | FallbackOptions {
+  return Boolean(fallback) && error.status >= 500;
+}
+
+/**
+ * Builds the JSON output of a failed render: an empty body flagged with the reason,
+ * and the client entry in the head when assets are configured.
+ */
+export function fallbackOutput(
+  error: SSRError,
+  assets?: AssetResolver,
+  nonce?: string,
+): FallbackOutput {
+  return {
+    ...(assets && { head: addNonce(assets.links() + assets.scripts(), nonce) }),
+    body: "",
+    fallback: true,
+    reason: error.code,
+  };
+}
+
+/**
+ * Builds a client-rendered page from a stream template: the empty root in place of the
+ * body marker, the client assets at the head marker and an error marker with the reason.
+ */
+export function fallbackDocument(
+  template: SplitTemplate,
+  error: SSRError,
+  fallback: true | FallbackOptions,
+  assets?: AssetResolver,
+  nonce?: string,
+): string {
+  const root = (fallback !== true && fallback.root) || '<div id="root"></div>';
+  const head = addNonce(assets?.links() ?? "", nonce);
+  const scripts = addNonce(assets?.scripts() ?? "", nonce);
+
+  return (
+    template.head.replace(SSR_MARKERS.HEAD, () => head) +
+    root +
+    scripts +
+    addNonce(streamErrorMarker([error]), nonce) +
+    template.tail
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Fetch handler entry point, importable as `universal-renderer/fetch` without pulling in
+ * Express or Node streams, for Bun, Deno and other runtimes serving Web `Request`s.
+ */
+export { createFetchHandler } from "./handlers/fetch";
+export { reactWebRenderer } from "./renderers/react-web";
+export type {
+  FetchHandler,
+  FetchHandlerOptions,
+  WebStreamCallbacks,
+  WebStreamRenderer,
+  WebStreamRenderOptions,
+  WebStreamRenderResult,
+} from "./types";
@@ -0,0 +1,113 @@
+// @vitest-environment node
+import express from "express";
+import { describe, expect, it, vi } from "vitest";
+
+import { listen } from "@/test/http";
+import { createBatchHandler } from "./batch";
+
+describe("createBatchHandler", () => {
+  const createApp = (cleanup = vi.fn()) => {
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/batch",
+      createBatchHandler({
+        setup: (url, props) => ({ url, props }),
+        render: (context) => {
+          if (context.props.fail) throw new Error("boom");
+          return { body: `<p>${context.url}</p>` };
+        },
+        cleanup,
+        concurrency: 2,
+      }),
+    );
+    return app;
+  };
+
+  it("should render every job and isolate failures", async () => {
+    const cleanup = vi.fn();
+    const server = await listen(createApp(cleanup));
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    try {
+      const res = await server.post("/batch", {
+        jobs: [
+          { id: "a", url: "/a" },
+          { id: "b", url: "/b", props: { fail: true } },
+          { id: "c" },
+        ],
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        results: {
+          a: { body: "<p>/a</p>" },
+          b: expect.objectContaining({
+            error: "Internal Server Error",
+            code: "RENDER_ERROR",
+            phase: "render",
+            retryable: false,
+          }),
+          c: {
+            error: "Validation Error",
+            code: "VALIDATION_ERROR",
+            message: "URL is missing in request body",
+            field: "url",
+            retryable: false,
+          },
+        },
+      });
+      expect(cleanup).toHaveBeenCalledTimes(2);
+    } finally {
+      consoleError.mockRestore();
+      await server.close();
+    }
+  });
+
+  it("should keep job ids off the results prototype", async () => {
+    const server = await listen(createApp());
+
+    try {
+      const res = await server.post("/batch", {
+        jobs: [{ id: "__proto__", url: "/a" }],
+      });
+
+      expect(await res.json()).toEqual({
+        results: { ["__proto__"]: { body: "<p>/a</p>" } },
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should reject invalid concurrency", () => {
+    for (const concurrency of [0, -1, NaN, 1.5]) {
+      expect(() =>
+        createBatchHandler({
+          setup: (url) => ({ url }),
+          render: () => ({ body: "" }),
+          concurrency,
+        }),
+      ).toThrow(TypeError);
+    }
+  });
+
+  it("should reject duplicate job ids", async () => {
+    const server = await listen(createApp());
+
+    try {
+      const res = await server.post("/batch", {
+        jobs: [
+          { id: "a", url: "/a" },
+          { id: "a", url: "/b" },
+        ],
+      });
+
+      expect(res.status).toBe(400);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,182 @@
+import type { RequestHandler } from "express";
+
+import { createAssetResolver } from "@/assets";
+import { createMemoryCache, renderWithCache } from "@/cache";
+import { mapWithConcurrency } from "@/concurrency";
+import { errorResponse, SSRError, ValidationError } from "@/errors";
+import type { RenderRouteRequest } from "@/handlers/ssr";
+import { defaultLogger, requestLogger } from "@/logger";
+import { renderToOutput, withNonce } from "@/render";
+import { ResponseControl } from "@/response";
+import { requestTimeout, TIMEOUT_HEADER } from "@/timeout";
+import { RenderTimer } from "@/timing";
+import type {
+  BatchHandlerOptions,
+  BatchJob,
+  BatchResult,
+  ProtocolResponse,
+} from "@/types";
+import { validateRenderRequest } from "@/validation";
+
+/**
+ * Creates a route handler that renders many independent jobs in one request.
+ *
+ * This handler expects POST requests with `{ jobs: Array<{ id: string, url: string, props?: any }> }`
+ * and returns `{ results: Record<id, RenderOutput | SSRErrorBody> }`.
+ * Each job runs its own setup/render/cleanup cycle, so a failing job does not fail the others;
+ * its result is the same error body the JSON route would respond with.
+ * The render deadline applies to each job individually.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - Configuration options for SSR and batch concurrency
+ * @returns Express route handler for batch SSR requests
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { createBatchHandler } from 'universal-renderer';
+ *
+ * const app = express();
+ * app.use(express.json());
+ *
+ * app.post('/batch', createBatchHandler({
+ *   setup: async (url, props) => ({ url, props }),
+ *   render: async (context) => ({ body: renderToString(<Island {...context.props} />) }),
+ *   concurrency: 8
+ * }));
+ * ```
+ */
+export function createBatchHandler<TContext extends Record<string, any>>(
+  options: BatchHandlerOptions<TContext>,
+): RequestHandler {
+  const route = createBatchRoute(options);
+  const logger = options.logger ?? defaultLogger;
+
+  return async (req, res) => {
+    const { status, headers, body } = await route({
+      body: req.body,
+      timeout: req.get(TIMEOUT_HEADER),
+      log: requestLogger(logger, req, res),
+    });
+    res.status(status).set(headers).json(body);
+  };
+}
+
+/**
+ * Creates the framework-independent core of the batch route, shared by
+ * {@link createBatchHandler} and `createFetchHandler`.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - Configuration options for SSR and batch concurrency
+ * @returns Function answering a batch request with its status, headers and JSON body
+ */
+export function createBatchRoute<TContext extends Record<string, any>>(
+  options: BatchHandlerOptions<TContext>,
+): (request: RenderRouteRequest) => Promise<ProtocolResponse> {
+  if (!options.render) {
+    throw new Error("render callback is required");
+  }
+
+  const concurrency = options.concurrency ?? 4;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new TypeError(`Invalid batch concurrency: ${concurrency}`);
+  }
+  const cache = options.cache && {
+    ...options.cache,
+    store: options.cache.store ?? createMemoryCache(),
+  };
+
+  const assets = options.assets && createAssetResolver(options.assets);
+
+  return async ({ body, timeout: requested, log }) => {
+    const { jobs } = (body ?? {}) as Record<string, any>;
+
+    const invalid = (message: string, field: string) =>
+      errorResponse(new ValidationError(message, field));
+
+    if (!Array.isArray(jobs)) {
+      return invalid("jobs must be an array", "jobs");
+    }
+
+    const ids = new Set<string>();
+    for (const [index, job] of (jobs as BatchJob[]).entries()) {
+      if (typeof job?.id !== "string" || !job.id) {
+        return invalid("Every job requires an id", `jobs.${index}.id`);
+      }
+      if (ids.has(job.id)) {
+        return invalid(`Duplicate job id: ${job.id}`, `jobs.${index}.id`);
+      }
+      ids.add(job.id);
+    }
+
+    const timeout = requestTimeout(options.timeout, [
+      (body as Record<string, any>).timeout,
+      requested,
+    ]);
+    // Job ids are client-provided, so they must not reach the object prototype
+    const results: Record<string, BatchResult> = Object.create(null);
+    const timer = new RenderTimer("batch", options.metrics);
+
+    options.metrics?.inFlight.inc({ handler: "batch" });
+    try {
+      await mapWithConcurrency(jobs as BatchJob[], concurrency, async (job) => {
+        const jobTimer = new RenderTimer("batch", options.metrics);
+
+        try {
+          const { url, props, nonce } = await validateRenderRequest(
+            job,
+            options.validate,
+          );
+          const response = new ResponseControl();
+          response.nonce = nonce;
+          const render = () =>
+            renderToOutput(options, url, props, {
+              timeout,
+              timer: jobTimer,
+              assets,
+              response,
+            });
+
+          const output = cache
+            ? (
+                await renderWithCache(
+                  cache,
+                  url,
+                  props,
+                  render,
+                  log,
+                  (output) => !output.response && !response.personalized,
+                )
+              ).output
+            : await render();
+          results[job.id] = withNonce(output, nonce);
+        } catch (error) {
+          const ssrError = SSRError.from(error, jobTimer.phase);
+          results[job.id] = ssrError.toJSON();
+          if (ssrError instanceof ValidationError) return;
+
+          log.error(
+            {
+              jobId: job.id,
+              url: job.url,
+              code: ssrError.code,
+              phase: jobTimer.phase,
+              duration: jobTimer.elapsed(),
+              err: error,
+            },
+            "Batch job failed",
+          );
+        }
+      });
+    } finally {
+      options.metrics?.inFlight.dec({ handler: "batch" });
+    }
+
+    timer.record("total", timer.elapsed());
+    return {
+      status: 200,
+      headers: { "Server-Timing": timer.toServerTiming() },
+      body: { results },
+    };
+  };
+}
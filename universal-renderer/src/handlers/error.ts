@@ -5,11 +5,26 @@ import type {
   Response,
 } from "express";
 
+import { sendError, SSRError } from "@/errors";
+import { defaultLogger, requestLogger } from "@/logger";
+import type { Logger } from "@/types";
+
+/**
+ * Configuration options for the error handler.
+ */
+export type ErrorHandlerOptions = {
+  /** Optional logger. Defaults to JSON lines on the console. */
+  logger?: Logger;
+};
+
 /**
  * Creates an error handler for the server.
  *
- * Returns a JSON response with the error message and stack trace.
+ * Responds with the same {@link SSRError} body as the render routes, including the
+ * stack trace outside production. Errors raised after headers were sent are passed on
+ * to Express, which closes the connection.
  *
+ * @param options - Optional logger configuration
  * @returns Express error handler for errors
  *
  * @example
@@ -21,13 +36,19 @@ import type {
  * app.use(createErrorHandler());
  * ```
  */
-export function createErrorHandler(): ErrorRequestHandler {
-  return (err: Error, req: Request, res: Response, next: NextFunction) => {
-    console.error("[SSR] Unhandled error:", err);
-    const isDev = process.env.NODE_ENV !== "production";
-    res.status(500).json({
-      error: isDev ? err.message : "Internal Server Error",
-      ...(isDev && { stack: err.stack }),
-    });
+export function createErrorHandler(
+  options: ErrorHandlerOptions = {},
+): ErrorRequestHandler {
+  const logger = options.logger ?? defaultLogger;
+
+  return (err: unknown, req: Request, res: Response, next: NextFunction) => {
+    const error = SSRError.from(err);
+    requestLogger(logger, req, res).error(
+      { code: error.code, phase: error.phase, err: error.cause ?? error },
+      "Unhandled error",
+    );
+
+    if (res.headersSent) return next(err);
+    sendError(res, error);
   };
 }
@@ -0,0 +1,337 @@
+// @vitest-environment node
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { gzipSync } from "node:zlib";
+import { Suspense, createElement, use } from "react";
+import { describe, expect, it, vi } from "vitest";
+
+import { signRequest } from "@/auth";
+import { SSR_MARKERS } from "@/constants";
+import { toNodeListener } from "@/node";
+import type { WebStreamRenderer } from "@/types";
+import { createFetchHandler } from "./fetch";
+
+const template = `<html><head>${SSR_MARKERS.HEAD}</head><body>${SSR_MARKERS.BODY}</body></html>`;
+
+const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+
+const post = (path: string, body: unknown, headers = {}) =>
+  new Request(`http://ssr.test${path}`, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body:
+      typeof body === "string" || body instanceof Uint8Array
+        ? body
+        : JSON.stringify(body),
+  });
+
+const Delayed = () =>
+  createElement(
+    "p",
+    null,
+    use(new Promise<string>((resolve) => setTimeout(resolve, 10, "Ready"))),
+  );
+
+describe("createFetchHandler", () => {
+  const handler = createFetchHandler({
+    setup: (url, props) => ({
+      url,
+      props,
+      app: createElement(
+        Suspense,
+        { fallback: createElement("p", null, "Loading") },
+        createElement(Delayed),
+      ),
+    }),
+    render: ({ url }) => ({ body: `<p>${url}</p>` }),
+    streamCallbacks: {
+      head: () => "<title>Streamed</title>",
+      state: () => ({ ready: true }),
+    },
+    logger,
+  });
+
+  it("should render JSON on / and /static", async () => {
+    for (const path of ["/", "/static"]) {
+      const res = await handler(
+        post(path, { url: "/about" }, { "X-Request-Id": "req-1" }),
+      );
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("X-Request-Id")).toBe("req-1");
+      expect(res.headers.get("Server-Timing")).toMatch(/render;dur=/);
+      expect(await res.json()).toEqual({ body: "<p>/about</p>" });
+    }
+  });
+
+  it("should answer invalid requests with the SSRError protocol", async () => {
+    const invalid = await handler(post("/", "{"));
+    expect(invalid.status).toBe(400);
+    expect(invalid.headers.get("X-SSR-Error-Code")).toBe("VALIDATION_ERROR");
+    expect(await invalid.json()).toMatchObject({ field: "body" });
+
+    const missing = await handler(post("/stream", { url: "/" }));
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toMatchObject({ field: "template" });
+  });
+
+  it("should stream documents", async () => {
+    const res = await handler(post("/stream", { url: "/", template }));
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("text/html");
+    expect(html).toMatch(/^<html><head><title>Streamed<\/title><\/head><body>/);
+    expect(html).toContain("Ready");
+    expect(html).toMatch(
+      /<script type="application\/json" id="__SSR_STATE__">\{"ready":true\}<\/script><\/body><\/html>$/,
+    );
+  });
+
+  it("should wait for every boundary when asked for allReady", async () => {
+    const res = await handler(
+      post("/stream", { url: "/", template, mode: "allReady" }),
+    );
+    const html = await res.text();
+
+    expect(html).toContain("<p>Ready</p>");
+    expect(html).not.toContain("Loading");
+  });
+
+  it("should leave boundaries pending at the deadline to the client", async () => {
+    const cleanup = vi.fn();
+    const handler = createFetchHandler({
+      setup: () => ({
+        app: createElement(
+          Suspense,
+          { fallback: createElement("p", null, "Loading") },
+          createElement(() => use(new Promise<never>(() => {}))),
+        ),
+      }),
+      cleanup,
+      streamCallbacks: {},
+      logger,
+    });
+
+    const res = await handler(
+      post("/stream", { url: "/", template }, { "X-SSR-Timeout": "50" }),
+    );
+    const html = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(html).toContain("Loading");
+    expect(html).toMatch(
+      /data-ssr-error>.*"RENDER_TIMEOUT".*<\/script><\/body><\/html>$/,
+    );
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it("should run cleanup when the reader cancels the document", async () => {
+    const cleanup = vi.fn();
+    const handler = createFetchHandler({
+      setup: () => ({
+        app: createElement(
+          Suspense,
+          { fallback: createElement("p", null, "Loading") },
+          createElement(() => use(new Promise<never>(() => {}))),
+        ),
+      }),
+      cleanup,
+      streamCallbacks: {},
+      logger,
+    });
+
+    const res = await handler(post("/stream", { url: "/", template }));
+    const reader = res.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it("should apply the response control to streams and redirects", async () => {
+    const handler = createFetchHandler({
+      setup: (url, props, response) => {
+        if (url === "/account") response.redirect("/login");
+        response.setCookie("seen", "1").setCookie("theme", "dark");
+        return { app: createElement("p", null, "Hello") };
+      },
+      streamCallbacks: {},
+      logger,
+    });
+
+    const page = await handler(post("/stream", { url: "/", template }));
+    expect(page.status).toBe(200);
+    expect(page.headers.getSetCookie()).toEqual(["seen=1", "theme=dark"]);
+    expect(await page.text()).toContain("<p>Hello</p>");
+
+    const redirect = await handler(
+      post("/stream", { url: "/account", template }),
+    );
+    expect(redirect.status).toBe(302);
+    expect(redirect.headers.get("location")).toBe("/login");
+    expect(redirect.body).toBeNull();
+  });
+
+  it("should stream through the configured renderer and Web transform", async () => {
+    const renderer: WebStreamRenderer = {
+      async renderToReadableStream(node) {
+        const stream = new Blob([`<p>${node}</p>`]).stream();
+        return { stream, allReady: Promise.resolve() };
+      },
+    };
+    const handler = createFetchHandler({
+      setup: () => ({ app: "hello" }),
+      streamCallbacks: {
+        transform: () =>
+          new TransformStream({
+            transform(chunk, controller) {
+              const html = new TextDecoder().decode(chunk);
+              controller.enqueue(new TextEncoder().encode(html.toUpperCase()));
+            },
+          }),
+      },
+      renderer,
+      logger,
+    });
+
+    const res = await handler(post("/stream", { url: "/", template }));
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toMatch(/<body><P>HELLO<\/P><\/body><\/html>$/);
+  });
+
+  it("should render batches", async () => {
+    const res = await handler(
+      post("/batch", {
+        jobs: [
+          { id: "a", url: "/a" },
+          { id: "b", url: "javascript:alert(1)" },
+        ],
+      }),
+    );
+
+    expect(res.status).toBe(200);
+    const { results } = await res.json();
+    expect(results.a).toEqual({ body: "<p>/a</p>" });
+    expect(results.b).toMatchObject({ code: "VALIDATION_ERROR" });
+  });
+
+  it("should decode compressed and MessagePack bodies within the limit", async () => {
+    const limited = createFetchHandler({
+      setup: (url) => ({ url }),
+      render: ({ url }) => ({ body: `<p>${url}</p>` }),
+      bodyLimit: "1kb",
+      logger,
+    });
+
+    // { url: "/" }
+    const msgpack = gzipSync(
+      Buffer.from([0x81, 0xa3, ...Buffer.from("url"), 0xa1, 0x2f]),
+    );
+    const res = await limited(
+      new Request("http://ssr.test/", {
+        method: "POST",
+        headers: {
+          "content-type": "application/msgpack",
+          "content-encoding": "gzip",
+        },
+        body: msgpack,
+      }),
+    );
+    expect(await res.json()).toEqual({ body: "<p>/</p>" });
+
+    const bomb = gzipSync(`{"pad":"${"x".repeat(4096)}"}`);
+    const large = await limited(
+      post("/", bomb, { "content-encoding": "gzip" }),
+    );
+    expect(large.status).toBe(413);
+    expect(large.headers.get("X-SSR-Error-Code")).toBe("PAYLOAD_TOO_LARGE");
+  });
+
+  it("should shed load beyond the render slots", async () => {
+    let resolve!: () => void;
+    const slow = createFetchHandler({
+      setup: (url) => ({ url }),
+      render: async ({ url }) => {
+        await new Promise<void>((done) => (resolve = done));
+        return { body: `<p>${url}</p>` };
+      },
+      maxConcurrentRenders: 1,
+      maxQueueSize: 0,
+      logger,
+    });
+
+    const first = slow(post("/", { url: "/" }));
+    await vi.waitFor(() => expect(resolve).toBeDefined());
+
+    const rejected = await slow(post("/", { url: "/" }));
+    expect(rejected.status).toBe(503);
+    expect(rejected.headers.get("X-SSR-Error-Code")).toBe("OVERLOADED");
+
+    resolve();
+    expect((await first).status).toBe(200);
+    expect((await slow(new Request("http://ssr.test/health"))).status).toBe(
+      200,
+    );
+  });
+
+  it("should verify request signatures when auth is configured", async () => {
+    const signed = createFetchHandler({
+      setup: (url) => ({ url }),
+      render: ({ url }) => ({ body: `<p>${url}</p>` }),
+      auth: { secret: "s3cret" },
+      logger,
+    });
+    const body = JSON.stringify({ url: "/" });
+
+    const unsigned = await signed(post("/", body));
+    expect(unsigned.status).toBe(401);
+    expect(unsigned.headers.get("X-SSR-Error-Code")).toBe("UNAUTHORIZED");
+
+    const res = await signed(
+      post(
+        "/",
+        body,
+        signRequest({ method: "POST", path: "/", body }, "s3cret"),
+      ),
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ body: "<p>/</p>" });
+
+    expect((await signed(new Request("http://ssr.test/health"))).status).toBe(
+      200,
+    );
+  });
+
+  it("should serve health checks and 404 for other routes", async () => {
+    const health = await handler(new Request("http://ssr.test/health"));
+    expect(await health.json()).toMatchObject({ status: "OK" });
+
+    const missing = await handler(new Request("http://ssr.test/batch"));
+    expect(missing.status).toBe(404);
+    expect((await handler(post("/other", {}))).status).toBe(404);
+  });
+
+  it("should run behind Node's http module via toNodeListener", async () => {
+    const server = createServer(toNodeListener(handler));
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const res = await fetch(`http://127.0.0.1:${port}/stream`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ url: "/", template }),
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toContain("Ready");
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
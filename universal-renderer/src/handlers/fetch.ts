@@ -0,0 +1,313 @@
+import {
+  resolveAuth,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyRequest,
+  type AuthOptions,
+} from "@/auth";
+import { decodeBody, mediaType, parseLimit } from "@/body";
+import { createMemoryCache } from "@/cache";
+import {
+  AuthenticationError,
+  errorResponse,
+  PayloadTooLargeError,
+  SSRError,
+} from "@/errors";
+import { FALLBACK_HEADER } from "@/fallback";
+import { createBatchRoute } from "@/handlers/batch";
+import { healthResponse } from "@/handlers/health";
+import { createRenderRoute } from "@/handlers/ssr";
+import { createStreamRoute } from "@/handlers/stream-route";
+import { RenderLimiter } from "@/limiter";
+import {
+  bindLogger,
+  defaultLogger,
+  REQUEST_ID_HEADER,
+  resolveRequestId,
+} from "@/logger";
+import { TemplateRegistry } from "@/templates";
+import { TIMEOUT_HEADER } from "@/timeout";
+import { streamWebDocument, type WebDocumentTarget } from "@/web-stream";
+import type {
+  FetchHandler,
+  FetchHandlerOptions,
+  Logger,
+  ProtocolResponse,
+} from "@/types";
+
+const toResponse = ({ status, headers, body }: ProtocolResponse) =>
+  Response.json(body, { status, headers });
+
+/** Reads a request body, failing as soon as it exceeds the limit. */
+async function readRaw(request: Request, limit: number): Promise<Buffer> {
+  if (Number(request.headers.get("content-length")) > limit) {
+    throw new PayloadTooLargeError(limit);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new PayloadTooLargeError(limit);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Reads and decodes a JSON or MessagePack request body like `createBodyParser`, verifying
+ * its signature first when auth is configured, so unsigned bodies are never decompressed.
+ *
+ * @throws {AuthenticationError} When the request is not signed correctly
+ * @throws {PayloadTooLargeError} When the body exceeds the limit
+ * @throws {ValidationError} When the body cannot be decoded
+ */
+async function readBody(
+  request: Request,
+  auth: AuthOptions | undefined,
+  limit: number,
+): Promise<unknown> {
+  const raw = await readRaw(request, limit);
+
+  if (auth) {
+    const { pathname, search } = new URL(request.url);
+    verifyRequest(
+      auth,
+      { method: request.method, path: pathname + search, body: raw },
+      request.headers.get(TIMESTAMP_HEADER),
+      request.headers.get(SIGNATURE_HEADER),
+    );
+  }
+
+  return decodeBody(
+    raw,
+    mediaType(request.headers.get("content-type")),
+    request.headers.get("content-encoding"),
+    limit,
+  );
+}
+
+/**
+ * Creates the `/stream` route on top of {@link createStreamRoute}, answering with a Web
+ * `Response` once the document started. Its body is the document as it streams from
+ * {@link streamWebDocument}.
+ */
+function createWebStreamRoute<TContext extends Record<string, any>>(
+  options: FetchHandlerOptions<TContext>,
+) {
+  const streamOptions = {
+    ...options,
+    streamCallbacks: options.streamCallbacks!,
+  };
+  const route = createStreamRoute<TContext, WebDocumentTarget>(
+    {
+      ...options,
+      templates:
+        options.templates === false
+          ? undefined
+          : new TemplateRegistry(options.templates),
+    },
+    (url, props, run) => streamWebDocument(streamOptions, url, props, run),
+  );
+
+  return async (
+    request: Request,
+    body: unknown,
+    log: Logger,
+    release: () => void,
+  ): Promise<Response> => {
+    let response: Response | undefined;
+    let opened = false;
+
+    const failure = await route(
+      {
+        body,
+        timeout: request.headers.get(TIMEOUT_HEADER),
+        userAgent: request.headers.get("user-agent"),
+        log,
+      },
+      {
+        open(control, timer, document) {
+          opened = true;
+          const headers = new Headers(control.headerEntries());
+          headers.set("content-type", "text/html");
+          const serverTiming = timer.toServerTiming();
+          if (serverTiming) headers.set("Server-Timing", serverTiming);
+
+          response = new Response(document, {
+            status: control.status ?? 200,
+            headers,
+          });
+        },
+        closed: release,
+        redirect(control) {
+          response = new Response(null, {
+            status: control.status,
+            headers: control.headerEntries(),
+          });
+        },
+      },
+    );
+    if (!opened) release();
+    if (!failure) return response!;
+
+    // Serve a page the client renders by itself instead of the error
+    if (failure.document !== undefined) {
+      return new Response(failure.document, {
+        headers: {
+          "content-type": "text/html",
+          [FALLBACK_HEADER]: failure.error.code,
+        },
+      });
+    }
+    return toResponse(errorResponse(failure.error));
+  };
+}
+
+/**
+ * Creates a runtime-agnostic request handler implementing the SSR protocol on Web
+ * `Request` and `Response` objects.
+ *
+ * It serves `POST /` and `POST /static` (JSON rendering), `POST /batch` (batched JSON
+ * rendering), `POST /stream` (streaming on Web streams with `renderToReadableStream`)
+ * and `GET /health`, with the same bodies, headers, error codes, request signing, body
+ * decoding and load shedding as {@link createServer}. Mount it in Hono, Bun, Deno, or in
+ * Node's `http` module with {@link toNodeListener}. Other requests receive a `404`.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - Configuration options for the SSR routes
+ * @returns Function answering a `Request` with a `Response`
+ *
+ * @example
+ * ```typescript
+ * import { Hono } from 'hono';
+ * import { createFetchHandler } from 'universal-renderer/fetch';
+ *
+ * const ssr = createFetchHandler({
+ *   setup: async (url, props) => ({ url, props }),
+ *   render: async (context) => ({ body: renderToString(<App {...context} />) }),
+ * });
+ *
+ * const app = new Hono();
+ * app.mount('/ssr', ssr);
+ * ```
+ */
+export function createFetchHandler<
+  TContext extends Record<string, any> = Record<string, any>,
+>(options: FetchHandlerOptions<TContext>): FetchHandler {
+  if (!options.setup) {
+    throw new Error("setup callback is required");
+  }
+  if (!options.render && !options.streamCallbacks) {
+    throw new Error("render callback or streamCallbacks are required");
+  }
+
+  const logger = options.logger ?? defaultLogger;
+  const auth = resolveAuth(options.auth);
+  const bodyLimit = parseLimit(options.bodyLimit ?? "50mb");
+  const limiter =
+    options.maxConcurrentRenders !== undefined
+      ? new RenderLimiter({
+          maxConcurrentRenders: options.maxConcurrentRenders,
+          maxQueueSize: options.maxQueueSize,
+          queueTimeout: options.queueTimeout,
+        })
+      : undefined;
+
+  // Share one cache store between the JSON and batch routes
+  const cache = options.cache && {
+    ...options.cache,
+    store: options.cache.store ?? createMemoryCache(),
+  };
+  const renderOptions = options.render && {
+    ...options,
+    render: options.render,
+    cache,
+  };
+  const renderRoute = renderOptions && createRenderRoute(renderOptions);
+  const batchRoute =
+    renderOptions &&
+    createBatchRoute({
+      ...renderOptions,
+      concurrency: options.batchConcurrency,
+    });
+  const streamRoute = options.streamCallbacks && createWebStreamRoute(options);
+
+  const route = async (
+    request: Request,
+    pathname: string,
+    log: Logger,
+  ): Promise<Response> => {
+    if (request.method === "GET" && pathname === "/health") {
+      return toResponse(healthResponse({ limiter }));
+    }
+
+    const jsonRoute =
+      pathname === "/" || pathname === "/static"
+        ? renderRoute
+        : pathname === "/batch"
+          ? batchRoute
+          : undefined;
+    const isStream = pathname === "/stream";
+    if (
+      request.method !== "POST" ||
+      !(jsonRoute || (isStream && streamRoute))
+    ) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    let body;
+    try {
+      body = await readBody(request, auth, bodyLimit);
+    } catch (error) {
+      if (!(error instanceof SSRError)) throw error;
+
+      if (error instanceof AuthenticationError) {
+        log.warn({ err: error }, "Unauthorized request");
+      } else {
+        log.warn({ field: error.field, err: error }, "Invalid request body");
+      }
+      return toResponse(errorResponse(error));
+    }
+
+    // Verified requests share the render slots
+    let release = () => {};
+    if (limiter) {
+      try {
+        release = await limiter.acquire();
+      } catch (error) {
+        log.warn({ err: error, ...limiter.stats() }, "Render rejected");
+        return toResponse(errorResponse(error as SSRError));
+      }
+    }
+
+    if (isStream) return streamRoute!(request, body, log, release);
+
+    try {
+      return toResponse(
+        await jsonRoute!({
+          body,
+          timeout: request.headers.get(TIMEOUT_HEADER),
+          log,
+        }),
+      );
+    } finally {
+      release();
+    }
+  };
+  return async (request) => {
+    const { pathname } = new URL(request.url);
+    const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
+    const log = bindLogger(logger, { requestId, route: pathname });
+
+    const response = await route(request, pathname, log);
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    return response;
+  };
+}
@@ -1,11 +1,65 @@
 import type { RequestHandler } from "express";
 
+import type { ServerLifecycle } from "@/lifecycle";
+import type { RenderLimiter } from "@/limiter";
+import type { ProtocolResponse } from "@/types";
+import type { WorkerPool } from "@/workers";
+
+/**
+ * Configuration options for the health check handler.
+ */
+export type HealthHandlerOptions = {
+  /**
+   * Optional worker pool whose statistics are included in the response.
+   */
+  workers?: WorkerPool;
+
+  /**
+   * Optional render limiter whose active renders and queue depth are included in the response.
+   */
+  limiter?: RenderLimiter;
+
+  /**
+   * Optional server lifecycle. While it is draining the handler responds with `503`.
+   */
+  lifecycle?: ServerLifecycle;
+
+  /**
+   * Optional entries of `ServerOptions.apps`, whose readiness is reported under `apps`.
+   */
+  apps?: Record<string, AppHealth>;
+};
+
+/**
+ * What the health check reports about an entry of `ServerOptions.apps`.
+ */
+export type AppHealth = {
+  /** Whether the app serves `/stream`. */
+  stream: boolean;
+  /** The app's worker pool, if it renders on workers. */
+  workers?: WorkerPool;
+};
+
+/**
+ * Readiness of an app: `saturated` while its worker pool and queue are full, `draining`
+ * during shutdown, `ready` otherwise.
+ */
+const appStatus = (app: AppHealth, draining: boolean) =>
+  draining
+    ? "draining"
+    : app.workers?.stats().saturated
+      ? "saturated"
+      : "ready";
+
 /**
  * Creates a health check route handler.
  *
  * Returns a simple JSON response indicating the server is running.
  * Useful for load balancers, monitoring systems, and deployment health checks.
+ * The handler always runs on the main thread, so it stays responsive while workers render.
+ * During shutdown it responds with `503` and `status: "draining"` so that traffic moves elsewhere.
  *
+ * @param options - Optional sources of additional health details
  * @returns Express route handler for health checks
  *
  * @example
@@ -18,11 +72,43 @@ import type { RequestHandler } from "express";
  * app.get('/api/status', createHealthHandler()); // Can mount at any path
  * ```
  */
-export function createHealthHandler(): RequestHandler {
+export function createHealthHandler(
+  options: HealthHandlerOptions = {},
+): RequestHandler {
   return (req, res) => {
-    res.json({
-      status: "OK",
+    const { status, body } = healthResponse(options);
+    res.status(status).json(body);
+  };
+}
+
+/**
+ * Describes the health check response independently of the HTTP framework.
+ */
+export function healthResponse(
+  options: HealthHandlerOptions = {},
+): ProtocolResponse {
+  const draining = options.lifecycle?.draining ?? false;
+
+  return {
+    status: draining ? 503 : 200,
+    headers: {},
+    body: {
+      status: draining ? "draining" : "OK",
       timestamp: new Date().toISOString(),
-    });
+      ...(options.workers && { workers: options.workers.stats() }),
+      ...(options.limiter && { renders: options.limiter.stats() }),
+      ...(options.apps && {
+        apps: Object.fromEntries(
+          Object.entries(options.apps).map(([name, app]) => [
+            name,
+            {
+              status: appStatus(app, draining),
+              stream: app.stream,
+              ...(app.workers && { workers: app.workers.stats() }),
+            },
+          ]),
+        ),
+      }),
+    },
   };
 }
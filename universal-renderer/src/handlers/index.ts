@@ -1,4 +1,7 @@
+export { createBatchHandler } from "./batch";
 export { createErrorHandler } from "./error";
+export { createFetchHandler } from "./fetch";
 export { createHealthHandler } from "./health";
+export { createMetricsHandler, createMetricsMiddleware } from "./metrics";
 export { createSSRHandler } from "./ssr";
 export { createStreamHandler } from "./stream";
@@ -0,0 +1,58 @@
+import type { RequestHandler } from "express";
+
+import type { RenderMetrics } from "@/metrics";
+
+/**
+ * Creates a route handler exposing metrics in the Prometheus text format.
+ *
+ * @param metrics - The metrics to expose, as created by `createRenderMetrics()`
+ * @returns Express route handler for metrics scrapes
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { createMetricsHandler, createRenderMetrics } from 'universal-renderer';
+ *
+ * const metrics = createRenderMetrics();
+ * const app = express();
+ * app.get('/metrics', createMetricsHandler(metrics));
+ * ```
+ */
+export function createMetricsHandler(metrics: RenderMetrics): RequestHandler {
+  return (req, res) => {
+    res.setHeader("content-type", "text/plain; version=0.0.4; charset=utf-8");
+    res.send(metrics.registry.serialize());
+  };
+}
+
+/**
+ * Creates middleware counting requests by route and status code.
+ *
+ * Mount it before the routes it should observe. Requests that match no route
+ * are counted under the `unmatched` route to keep label cardinality bounded.
+ * Requests to an entry of `ServerOptions.apps` are labeled with its `app`.
+ *
+ * @param metrics - The metrics to record into
+ * @returns Express middleware
+ */
+export function createMetricsMiddleware(
+  metrics: RenderMetrics,
+): RequestHandler {
+  return (req, res, next) => {
+    res.on("finish", () => {
+      const route = !req.route
+        ? "unmatched"
+        : typeof req.route.path === "string"
+          ? req.route.path
+          : req.path;
+
+      metrics.requests.inc({
+        route,
+        status: res.statusCode,
+        ...(res.locals.app && { app: res.locals.app }),
+      });
+    });
+
+    next();
+  };
+}
@@ -0,0 +1,347 @@
+// @vitest-environment node
+import express from "express";
+import { describe, expect, it, vi } from "vitest";
+
+import { listen } from "@/test/http";
+import { createSSRHandler } from "./ssr";
+
+describe("createSSRHandler", () => {
+  it("should respond with 504 and clean up when rendering exceeds the timeout", async () => {
+    const cleanup = vi.fn();
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/",
+      createSSRHandler({
+        setup: () => ({}),
+        render: () => new Promise<never>(() => {}),
+        cleanup,
+        timeout: 20,
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/", { url: "/" });
+
+      expect(res.status).toBe(504);
+      expect(res.headers.get("x-ssr-error-code")).toBe("RENDER_TIMEOUT");
+      expect(res.headers.get("x-ssr-retryable")).toBe("true");
+      expect(await res.json()).toEqual({
+        error: "Gateway Timeout",
+        code: "RENDER_TIMEOUT",
+        message: "Render timed out after 20ms",
+        phase: "render",
+        retryable: true,
+      });
+      expect(cleanup).toHaveBeenCalledOnce();
+    } finally {
+      consoleError.mockRestore();
+      await server.close();
+    }
+  });
+});
+
+describe("createSSRHandler state", () => {
+  it("should return hydration state as a JSON script element", async () => {
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/",
+      createSSRHandler({
+        setup: (url) => ({ url }),
+        render: () => ({ body: "<p>Hi</p>", state: { count: 1n } }),
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/", { url: "/" });
+
+      expect(await res.json()).toEqual({
+        body: "<p>Hi</p>",
+        state: `<script type="application/json" id="__SSR_STATE__">{"count":{"$t":"BigInt","v":"1"}}</script>`,
+      });
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("createSSRHandler assets", () => {
+  it("should prepend asset links and the entry script to the head", async () => {
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/",
+      createSSRHandler({
+        setup: (url) => ({ url, modules: new Set(["src/App.tsx"]) }),
+        render: () => ({ head: "<title>Hi</title>", body: "<p>Hi</p>" }),
+        assets: {
+          manifest: {
+            "src/client.tsx": {
+              file: "assets/client.js",
+              css: ["assets/client.css"],
+            },
+          },
+          ssrManifest: { "src/App.tsx": ["/assets/App.js"] },
+          entry: "src/client.tsx",
+        },
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/", { url: "/" });
+
+      expect((await res.json()).head).toBe(
+        '<link rel="stylesheet" href="/assets/client.css">' +
+          '<link rel="modulepreload" href="/assets/App.js">' +
+          '<script type="module" src="/assets/client.js"></script>' +
+          "<title>Hi</title>",
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should answer failed renders with a flagged fallback when enabled", async () => {
+    const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/",
+      createSSRHandler({
+        setup: () => ({}),
+        render: () => {
+          throw new Error("boom");
+        },
+        fallback: true,
+        logger,
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/", { url: "/" });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-ssr-fallback")).toBe("RENDER_ERROR");
+      expect(await res.json()).toEqual({
+        body: "",
+        fallback: true,
+        reason: "RENDER_ERROR",
+      });
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "RENDER_ERROR" }),
+        "Render failed",
+      );
+
+      const invalid = await server.post("/", { url: "javascript:alert(1)" });
+      expect(invalid.status).toBe(400);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("createSSRHandler cache", () => {
+  it("should serve identical requests from the cache and never cache errors", async () => {
+    const render = vi.fn((context: Record<string, any>) => {
+      if (context.props.fail) throw new Error("boom");
+      return { body: `<p>${context.url}</p>` };
+    });
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/",
+      createSSRHandler({
+        setup: (url, props) => ({ url, props }),
+        render,
+        cache: {},
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const first = await server.post("/", { url: "/a" });
+      const second = await server.post("/", { url: "/a" });
+
+      expect(first.headers.get("x-ssr-cache")).toBe("MISS");
+      expect(second.headers.get("x-ssr-cache")).toBe("HIT");
+      expect(await second.json()).toEqual({ body: "<p>/a</p>" });
+
+      await server.post("/", { url: "/b", props: { fail: true } });
+      await server.post("/", { url: "/b", props: { fail: true } });
+
+      expect(render).toHaveBeenCalledTimes(3);
+    } finally {
+      consoleError.mockRestore();
+      await server.close();
+    }
+  });
+});
+
+describe("createSSRHandler cache bypass", () => {
+  it("should not cache renders that set cookies or read the nonce", async () => {
+    const render = vi.fn(({ url, props, response }: Record<string, any>) => {
+      if (url === "/session") response.setCookie("session", props.user);
+      if (url === "/nonce") return { body: `<p>${response.nonce}</p>` };
+      return { body: "<p>Static</p>" };
+    });
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/",
+      createSSRHandler({
+        setup: (url, props, response) => ({ url, props, response }),
+        render,
+        cache: { cacheKey: (url) => url },
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      await server.post("/", { url: "/session", props: { user: "user1" } });
+      const session = await server.post("/", {
+        url: "/session",
+        props: { user: "user2" },
+      });
+      expect(session.headers.get("x-ssr-cache")).toBe("BYPASS");
+      expect((await session.json()).response.cookies).toEqual([
+        { name: "session", value: "user2" },
+      ]);
+
+      await server.post("/", { url: "/nonce", nonce: "AAA" });
+      const nonce = await server.post("/", { url: "/nonce", nonce: "BBB" });
+      expect(nonce.headers.get("x-ssr-cache")).toBe("BYPASS");
+      expect((await nonce.json()).body).toBe("<p>BBB</p>");
+
+      await server.post("/", { url: "/static", nonce: "AAA" });
+      const hit = await server.post("/", { url: "/static", nonce: "BBB" });
+      expect(hit.headers.get("x-ssr-cache")).toBe("HIT");
+      expect(render).toHaveBeenCalledTimes(5);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("createSSRHandler nonce", () => {
+  it("should add the request's nonce to the markup it injects after the cache lookup", async () => {
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/",
+      createSSRHandler({
+        setup: (url, props, response) => ({ url, response }),
+        render: ({ response }) => ({
+          head: "<style>p{color:red}</style>",
+          body: `<p>${response.nonce}</p>`,
+          state: { ok: true },
+        }),
+        cache: { cacheKey: (url) => url },
+        assets: {
+          manifest: { "src/client.tsx": { file: "assets/client.js" } },
+          entry: "src/client.tsx",
+        },
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const first = await (
+        await server.post("/", { url: "/", nonce: "abc" })
+      ).json();
+      expect(first).toEqual({
+        head: '<script nonce="abc" type="module" src="/assets/client.js"></script><style>p{color:red}</style>',
+        body: "<p>abc</p>",
+        state: `<script nonce="abc" type="application/json" id="__SSR_STATE__">{"ok":true}</script>`,
+      });
+
+      const second = await (
+        await server.post("/", { url: "/", nonce: "def" })
+      ).json();
+      expect(second.body).toBe("<p>def</p>");
+      expect(second.head).toBe(
+        '<script nonce="def" type="module" src="/assets/client.js"></script><style>p{color:red}</style>',
+      );
+      expect(second.state).toContain('<script nonce="def"');
+
+      const invalid = await server.post("/", { url: "/", nonce: '"><x' });
+      expect(invalid.status).toBe(400);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("createSSRHandler response", () => {
+  it("should return the status, headers and cookies set during the render", async () => {
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/",
+      createSSRHandler({
+        setup: (url, props, response) => ({ url, response }),
+        render: ({ response }) => {
+          response.setStatus(404).setHeader("Cache-Control", "no-store");
+          response.setCookie("visited", "1", { path: "/" });
+          return { body: "<p>Not found</p>" };
+        },
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/", { url: "/missing" });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        body: "<p>Not found</p>",
+        response: {
+          status: 404,
+          headers: { "cache-control": "no-store" },
+          cookies: [{ name: "visited", value: "1", path: "/" }],
+        },
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should skip rendering when setup redirects", async () => {
+    const render = vi.fn(() => ({ body: "<p>Secret</p>" }));
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/",
+      createSSRHandler({
+        setup: (url, props, response) => {
+          response.redirect("/login");
+          return { url };
+        },
+        render,
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/", { url: "/account" });
+
+      expect(await res.json()).toEqual({
+        body: "",
+        response: { status: 302, location: "/login" },
+      });
+      expect(render).not.toHaveBeenCalled();
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -1,4 +1,14 @@
-import type { SSRHandlerOptions } from "@/types";
+import { createAssetResolver } from "@/assets";
+import { CACHE_HEADER, createMemoryCache, renderWithCache } from "@/cache";
+import { errorResponse, SSRError, ValidationError } from "@/errors";
+import { FALLBACK_HEADER, fallbackOutput, shouldFallBack } from "@/fallback";
+import { defaultLogger, requestLogger } from "@/logger";
+import { renderToOutput, withNonce } from "@/render";
+import { ResponseControl } from "@/response";
+import { requestTimeout, TIMEOUT_HEADER } from "@/timeout";
+import { RenderTimer } from "@/timing";
+import type { Logger, ProtocolResponse, SSRHandlerOptions } from "@/types";
+import { validateRenderRequest } from "@/validation";
 import type { RequestHandler } from "express";
 
 /**
@@ -6,6 +16,15 @@ import type { RequestHandler } from "express";
  *
  * This handler expects POST requests with `{ url: string, props?: any }` and
  * returns JSON responses with `{ head?: string, body: string, bodyAttrs?: string }`.
+ * Failures are answered with an {@link SSRError} body `{ error, code, message, retryable }`:
+ * `400` for invalid requests, `504` when the render deadline is exceeded,
+ * `503` when the worker queue is full and `500` otherwise.
+ * With the `fallback` option, failed renders are answered with `200` and an empty body flagged
+ * `{ fallback: true, reason }` instead, so the client renders the page itself.
+ * With the `cache` option, the `X-SSR-Cache` header reports whether the output was cached.
+ * Renders that set a status, redirect, header or cookie, or read the request's `nonce`,
+ * are never cached, so cached output carries neither another request's nonce nor its
+ * cookies.
  *
  * @template TContext - The type of context object used throughout the rendering pipeline
  * @param options - Configuration options for SSR
@@ -32,36 +51,129 @@ import type { RequestHandler } from "express";
 export function createSSRHandler<TContext extends Record<string, any>>(
   options: SSRHandlerOptions<TContext>,
 ): RequestHandler {
+  const route = createRenderRoute(options);
+  const logger = options.logger ?? defaultLogger;
+
+  return async (req, res) => {
+    const { status, headers, body } = await route({
+      body: req.body,
+      timeout: req.get(TIMEOUT_HEADER),
+      log: requestLogger(logger, req, res),
+    });
+    res.status(status).set(headers).json(body);
+  };
+}
+
+/**
+ * A JSON render request, independent of the HTTP framework.
+ */
+export type RenderRouteRequest = {
+  /** The parsed request body. */
+  body: unknown;
+  /** Value of the `X-SSR-Timeout` header. */
+  timeout?: string | null;
+  /** Logger bound to the request. */
+  log: Logger;
+};
+
+/**
+ * Creates the framework-independent core of the JSON render route, shared by
+ * {@link createSSRHandler} and `createFetchHandler`.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - Configuration options for SSR
+ * @returns Function answering a render request with its status, headers and JSON body
+ */
+export function createRenderRoute<TContext extends Record<string, any>>(
+  options: SSRHandlerOptions<TContext>,
+): (request: RenderRouteRequest) => Promise<ProtocolResponse> {
   if (!options.render) {
     throw new Error("render callback is required");
   }
 
-  return async (req, res) => {
-    let context: TContext | undefined;
+  const cache = options.cache && {
+    ...options.cache,
+    store: options.cache.store ?? createMemoryCache(),
+  };
+
+  const assets = options.assets && createAssetResolver(options.assets);
+
+  return async ({ body, timeout: requested, log }) => {
+    const timer = new RenderTimer("ssr", options.metrics);
+    const url = (body as Record<string, any> | undefined)?.url;
 
+    options.metrics?.inFlight.inc({ handler: "ssr" });
+
+    let nonce: string | undefined;
     try {
-      const { url, props = {} } = req.body;
+      const request = await validateRenderRequest(body, options.validate);
+      nonce = request.nonce;
 
-      if (!url) {
-        return res.status(400).json({ error: "URL is required" });
-      }
+      const timeout = requestTimeout(options.timeout, [
+        (body as Record<string, any>).timeout,
+        requested,
+      ]);
+      const response = new ResponseControl();
+      response.nonce = request.nonce;
+      const render = () =>
+        renderToOutput(options, request.url, request.props, {
+          timeout,
+          timer,
+          assets,
+          response,
+        });
 
-      // Set up the rendering context with the provided URL and props
-      context = await options.setup(url, props);
+      const headers: Record<string, string> = {};
+      let output;
+      if (cache) {
+        const cached = await renderWithCache(
+          cache,
+          request.url,
+          request.props,
+          render,
+          log,
+          // Status, headers and cookies belong to the request they were rendered for
+          (output) => !output.response && !response.personalized,
+        );
+        output = cached.output;
+        headers[CACHE_HEADER] = cached.status;
+      } else {
+        output = await render();
+      }
 
-      // Render the application and get the HTML output
-      const result = await options.render(context);
+      const serverTiming = timer.toServerTiming();
+      if (serverTiming) headers["Server-Timing"] = serverTiming;
 
-      // Return the rendered content as JSON
-      res.json(result);
+      return { status: 200, headers, body: withNonce(output, request.nonce) };
     } catch (error) {
-      console.error("[SSR] Render error:", error);
-      res.status(500).json({ error: "Internal Server Error" });
-    } finally {
-      // Always clean up resources, even if rendering failed
-      if (context && options.cleanup) {
-        options.cleanup(context);
+      const ssrError = SSRError.from(error, timer.phase);
+
+      if (ssrError instanceof ValidationError) {
+        log.warn({ url, field: ssrError.field, err: error }, "Invalid request");
+        return errorResponse(ssrError);
+      }
+
+      log.error(
+        {
+          url,
+          code: ssrError.code,
+          phase: timer.phase,
+          duration: timer.elapsed(),
+          err: error,
+        },
+        "Render failed",
+      );
+
+      if (shouldFallBack(options.fallback, ssrError)) {
+        return {
+          status: 200,
+          headers: { [FALLBACK_HEADER]: ssrError.code },
+          body: fallbackOutput(ssrError, assets, nonce),
+        };
       }
+      return errorResponse(ssrError);
+    } finally {
+      options.metrics?.inFlight.dec({ handler: "ssr" });
     }
   };
 }
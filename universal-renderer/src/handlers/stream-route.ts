@@ -0,0 +1,156 @@
+import { createAssetResolver } from "@/assets";
+import type { DocumentRun, DocumentStream } from "@/document";
+import { SSRError, TemplateUnknownError, ValidationError } from "@/errors";
+import { fallbackDocument, shouldFallBack } from "@/fallback";
+import { requestStreamMode } from "@/mode";
+import { resolveTemplate, type SplitTemplate } from "@/templates";
+import { requestTimeout } from "@/timeout";
+import { RenderTimer } from "@/timing";
+import type { Logger, RenderPhase, StreamHandlerOptions } from "@/types";
+import { validateRenderRequest } from "@/validation";
+
+/**
+ * Options of {@link createStreamRoute}; the streaming callbacks and renderer are bound
+ * by the document streamer.
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ */
+export type StreamRouteOptions<TContext extends Record<string, any>> = Omit<
+  StreamHandlerOptions<TContext>,
+  "streamCallbacks" | "renderer"
+>;
+
+/**
+ * A streaming render request, independent of the HTTP framework.
+ */
+export type StreamRouteRequest = {
+  /** The parsed request body. */
+  body: unknown;
+  /** Value of the `X-SSR-Timeout` header. */
+  timeout?: string | null;
+  /** Value of the `User-Agent` header, used by the `auto` stream mode. */
+  userAgent?: string | null;
+  /** Logger bound to the request. */
+  log: Logger;
+};
+
+/**
+ * A stream request that failed before anything was written, for the caller to answer.
+ */
+export type StreamRouteFailure = {
+  error: SSRError;
+  /** The page the client renders by itself, when the `fallback` option applies. */
+  document?: string;
+};
+
+// Log messages of failures before the first byte, by the phase they happened in
+const FAILURE_MESSAGES: Partial<Record<RenderPhase, string>> = {
+  shell: "Shell failed",
+  stream: "Stream head failed",
+};
+
+/**
+ * Creates the framework-independent core of the streaming route, shared by
+ * `createStreamHandler` and `createFetchHandler`.
+ *
+ * It validates the request, resolves its template, stream mode and deadline, and streams
+ * the document to `target` with `stream`: `streamDocument` on Node streams or
+ * `streamWebDocument` on Web streams. Failures before the first byte are logged and
+ * returned, with the fallback page when the `fallback` option applies.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @template TTarget - What the document streamer writes to
+ * @param options - Configuration options for streaming SSR
+ * @param stream - Streams a document to a target, resolving once it started
+ * @returns Function streaming a request to a target, resolving once the document started
+ */
+export function createStreamRoute<
+  TContext extends Record<string, any>,
+  TTarget,
+>(
+  options: StreamRouteOptions<TContext>,
+  stream: (
+    url: string,
+    props: Record<string, any>,
+    run: DocumentRun & { target: TTarget },
+  ) => Promise<DocumentStream>,
+): (
+  request: StreamRouteRequest,
+  target: TTarget,
+) => Promise<StreamRouteFailure | undefined> {
+  const assets = options.assets && createAssetResolver(options.assets);
+
+  return async ({ body, timeout: requested, userAgent, log }, target) => {
+    const timer = new RenderTimer("stream", options.metrics);
+    const fields = body as Record<string, any>;
+    let template: SplitTemplate | undefined;
+    let nonce: string | undefined;
+
+    options.metrics?.inFlight.inc({ handler: "stream" });
+    const settled = () => {
+      options.metrics?.inFlight.dec({ handler: "stream" });
+      options.metrics?.streamDuration.observe({}, timer.elapsed() / 1000);
+    };
+
+    try {
+      const request = await validateRenderRequest(body, options.validate);
+      nonce = request.nonce;
+      template = resolveTemplate(fields, options.templates, options.validate);
+
+      const document = await stream(request.url, request.props, {
+        template,
+        mode: requestStreamMode(options, body, userAgent),
+        timeout: requestTimeout(options.timeout, [fields?.timeout, requested]),
+        nonce,
+        timer,
+        assets,
+        log,
+        target,
+      });
+      document.done.then(settled);
+    } catch (error) {
+      settled();
+      const ssrError = SSRError.from(error, timer.phase);
+
+      if (ssrError instanceof ValidationError) {
+        log.warn(
+          { url: fields?.url, field: ssrError.field, err: error },
+          "Invalid request",
+        );
+        return { error: ssrError };
+      }
+
+      // Expected once per template and process; the client resends it inline
+      if (ssrError instanceof TemplateUnknownError) {
+        log.debug?.({ hash: ssrError.hash }, "Template not registered");
+        return { error: ssrError };
+      }
+
+      log.error(
+        {
+          url: fields?.url,
+          code: ssrError.code,
+          phase: ssrError.phase,
+          duration: timer.elapsed(),
+          err: ssrError.cause ?? ssrError,
+        },
+        (ssrError.phase && FAILURE_MESSAGES[ssrError.phase]) ??
+          "Stream setup failed",
+      );
+
+      // Serve a page the client renders by itself instead of the error
+      if (template && shouldFallBack(options.fallback, ssrError)) {
+        return {
+          error: ssrError,
+          document: fallbackDocument(
+            template,
+            ssrError,
+            options.fallback,
+            assets,
+            nonce,
+          ),
+        };
+      }
+      return { error: ssrError };
+    }
+  };
+}
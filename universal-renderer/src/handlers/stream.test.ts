@@ -0,0 +1,508 @@
+// @vitest-environment node
+import express from "express";
+import { Suspense, createElement, use } from "react";
+import { describe, expect, it, vi } from "vitest";
+
+import { SSR_MARKERS } from "@/constants";
+import type { ResponseControl } from "@/response";
+import { parseState } from "@/state";
+import { hashTemplate, TemplateRegistry } from "@/templates";
+import { listen } from "@/test/http";
+import { createStreamHandler } from "./stream";
+
+const template = `<html><head>${SSR_MARKERS.HEAD}</head><body>${SSR_MARKERS.BODY}</body></html>`;
+
+const Pending = () => use(new Promise<never>(() => {}));
+
+const Failing = ({ after }: { after: Promise<never> }) => use(after);
+
+const rejectLater = (message: string) =>
+  new Promise<never>((_, reject) =>
+    setTimeout(() => reject(new Error(message)), 10),
+  );
+
+describe("createStreamHandler", () => {
+  it("should abort pending boundaries once the timeout is exceeded", async () => {
+    const cleanup = vi.fn();
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: () => ({
+          app: createElement(
+            Suspense,
+            { fallback: createElement("p", null, "Loading") },
+            createElement(Pending),
+          ),
+        }),
+        cleanup,
+        timeout: 50,
+        streamCallbacks: {},
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/stream", { url: "/", template });
+      const html = await res.text();
+
+      expect(res.status).toBe(200);
+      expect(html).toContain("Loading");
+      expect(html).toMatch(/<\/body><\/html>$/);
+      expect(cleanup).toHaveBeenCalledOnce();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should respond with 504 when setup exceeds the requested deadline", async () => {
+    const cleanup = vi.fn();
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: () =>
+          new Promise((resolve) => setTimeout(() => resolve({}), 100)),
+        cleanup,
+        streamCallbacks: {},
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post(
+        "/stream",
+        { url: "/", template },
+        { "X-SSR-Timeout": "20" },
+      );
+
+      expect(res.status).toBe(504);
+      expect(await res.json()).toMatchObject({
+        code: "RENDER_TIMEOUT",
+        phase: "setup",
+        retryable: true,
+      });
+      await vi.waitFor(() => expect(cleanup).toHaveBeenCalledOnce());
+    } finally {
+      consoleError.mockRestore();
+      await server.close();
+    }
+  });
+
+  it("should report errors after the shell as a marker before the tail", async () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: () => ({
+          app: createElement(
+            Suspense,
+            { fallback: createElement("p", null, "Loading") },
+            createElement(Failing, { after: rejectLater("boom") }),
+          ),
+        }),
+        streamCallbacks: {},
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/stream", { url: "/", template });
+      const html = await res.text();
+      const marker = html.match(
+        /<script type="application\/json" data-ssr-error>(.*?)<\/script><\/body><\/html>$/,
+      );
+
+      expect(res.status).toBe(200);
+      expect(JSON.parse(marker![1]!)).toEqual([
+        expect.objectContaining({
+          code: "STREAM_ERROR",
+          message: "boom",
+          phase: "stream",
+          retryable: false,
+        }),
+      ]);
+    } finally {
+      consoleError.mockRestore();
+      await server.close();
+    }
+  });
+
+  it("should answer failures while writing the document instead of hanging", async () => {
+    const cleanup = vi.fn();
+    const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: (url) => ({ url, app: createElement("p", null, "Shell") }),
+        cleanup,
+        logger,
+        streamCallbacks: {
+          head: async ({ url }) => {
+            if (url === "/head") throw new Error("head boom");
+            return "";
+          },
+          transform: () => {
+            throw new Error("transform boom");
+          },
+        },
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const head = await server.post("/stream", { url: "/head", template });
+      expect(head.status).toBe(500);
+      expect(await head.json()).toMatchObject({
+        code: "STREAM_ERROR",
+        message: "head boom",
+      });
+
+      const transform = await server.post("/stream", { url: "/", template });
+      expect(transform.status).toBe(200);
+      expect(await transform.text()).toMatch(
+        /data-ssr-error>.*transform boom.*<\/body><\/html>$/,
+      );
+      expect(cleanup).toHaveBeenCalledTimes(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should write hydration state before the tail", async () => {
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: () => ({ app: createElement("p", null, "Hello") }),
+        streamCallbacks: {
+          state: () => ({ at: new Date(0), note: "</script>" }),
+        },
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/stream", { url: "/", template });
+      const html = await res.text();
+      const state = html.match(
+        /<script type="application\/json" id="__SSR_STATE__">(.*?)<\/script><\/body><\/html>$/,
+      );
+
+      expect(parseState(state![1]!)).toEqual({
+        at: new Date(0),
+        note: "</script>",
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should render registered templates referenced by hash", async () => {
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: () => ({ app: createElement("p", null, "Hello") }),
+        streamCallbacks: {},
+        templates: new TemplateRegistry(),
+      }),
+    );
+    const server = await listen(app);
+    const templateHash = hashTemplate(template);
+
+    try {
+      const unknown = await server.post("/stream", { url: "/", templateHash });
+      expect(unknown.status).toBe(412);
+      expect(await unknown.json()).toMatchObject({
+        code: "TEMPLATE_UNKNOWN",
+        retryable: true,
+      });
+
+      const inline = await server.post("/stream", {
+        url: "/",
+        template,
+        templateHash,
+      });
+      expect(await inline.text()).toContain("<p>Hello</p>");
+
+      const hashed = await server.post("/stream", { url: "/", templateHash });
+      expect(hashed.status).toBe(200);
+      expect(await hashed.text()).toBe(
+        `<html><head>${SSR_MARKERS.HEAD}</head><body><p>Hello</p></body></html>`,
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should inject asset links and bootstrap the hydration entry", async () => {
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: () => ({ app: createElement("p", null, "Hello") }),
+        streamCallbacks: { head: () => "<title>Hello</title>" },
+        assets: {
+          manifest: {
+            "src/client.tsx": {
+              file: "assets/client.js",
+              css: ["assets/client.css"],
+            },
+          },
+          entry: "src/client.tsx",
+        },
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/stream", { url: "/", template });
+      const html = await res.text();
+
+      expect(html).toContain(
+        '<head><link rel="stylesheet" href="/assets/client.css"><title>Hello</title></head>',
+      );
+      expect(html).toMatch(
+        /<script type="module" src="\/assets\/client.js" async=""><\/script>/,
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should serve a client-rendered document when setup fails with fallback", async () => {
+    const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: () => {
+          throw new Error("database down");
+        },
+        streamCallbacks: {},
+        assets: {
+          manifest: {
+            "src/client.tsx": {
+              file: "assets/client.js",
+              css: ["assets/client.css"],
+            },
+          },
+          entry: "src/client.tsx",
+        },
+        fallback: { root: '<div id="app"></div>' },
+        logger,
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/stream", {
+        url: "/",
+        template,
+        nonce: "abc123",
+      });
+      const html = await res.text();
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toContain("text/html");
+      expect(res.headers.get("x-ssr-fallback")).toBe("SETUP_ERROR");
+      expect(html).toMatch(
+        /^<html><head><link nonce="abc123" rel="stylesheet" href="\/assets\/client.css"><\/head><body><div id="app"><\/div><script nonce="abc123" type="module" src="\/assets\/client.js"><\/script><script nonce="abc123" type="application\/json" data-ssr-error>.*"SETUP_ERROR".*<\/script><\/body><\/html>$/,
+      );
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "SETUP_ERROR" }),
+        "Stream setup failed",
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should apply the response set while rendering the shell", async () => {
+    const NotFound = ({ response }: { response: ResponseControl }) => {
+      response.setStatus(404).setHeader("Cache-Control", "no-store");
+      response.setCookie("visited", "1", { path: "/" });
+      return createElement("p", null, "Not found");
+    };
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: (url, props, response) => ({
+          app: createElement(NotFound, { response }),
+        }),
+        streamCallbacks: {},
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/stream", { url: "/missing", template });
+
+      expect(res.status).toBe(404);
+      expect(res.headers.get("cache-control")).toBe("no-store");
+      expect(res.headers.get("x-ssr-response-headers")).toBe("cache-control");
+      expect(res.headers.get("set-cookie")).toBe("visited=1; Path=/");
+      expect(await res.text()).toContain("<p>Not found</p>");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should redirect without a body when the shell asks for it", async () => {
+    const cleanup = vi.fn();
+    const Guard = ({ response }: { response: ResponseControl }) => {
+      response.redirect("/login", 303);
+      return createElement(
+        Suspense,
+        { fallback: null },
+        createElement(Pending),
+      );
+    };
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: (url, props, response) => ({
+          app: createElement(Guard, { response }),
+        }),
+        cleanup,
+        streamCallbacks: {},
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await fetch(`${server.url}/stream`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ url: "/account", template }),
+        redirect: "manual",
+      });
+
+      expect(res.status).toBe(303);
+      expect(res.headers.get("location")).toBe("/login");
+      expect(await res.text()).toBe("");
+      expect(cleanup).toHaveBeenCalledOnce();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should wait for every boundary before flushing to bots", async () => {
+    const Delayed = () =>
+      createElement(
+        "p",
+        null,
+        use(new Promise<string>((resolve) => setTimeout(resolve, 50, "Ready"))),
+      );
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: () => ({
+          app: createElement(
+            "main",
+            null,
+            createElement(
+              Suspense,
+              { fallback: createElement("p", null, "Loading") },
+              createElement(Delayed),
+            ),
+          ),
+        }),
+        streamCallbacks: {},
+        streamMode: "auto",
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const bot = await server.post("/stream", {
+        url: "/",
+        template,
+        userAgent: "Mozilla/5.0 (compatible; Googlebot/2.1)",
+      });
+      const botHtml = await bot.text();
+      expect(botHtml).toContain("<p>Ready</p>");
+      expect(botHtml).not.toContain("Loading");
+
+      const browser = await server.post("/stream", { url: "/", template });
+      expect(await browser.text()).toContain("Loading");
+
+      const invalid = await server.post("/stream", {
+        url: "/",
+        template,
+        mode: "eager",
+      });
+      expect(invalid.status).toBe(400);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should pass the nonce to React and the markup the handler injects", async () => {
+    const Delayed = () =>
+      createElement(
+        "p",
+        null,
+        use(new Promise<string>((resolve) => setTimeout(resolve, 50, "Ready"))),
+      );
+    const app = express();
+    app.use(express.json());
+    app.post(
+      "/stream",
+      createStreamHandler({
+        setup: () => ({
+          app: createElement(
+            "main",
+            null,
+            createElement(Suspense, { fallback: null }, createElement(Delayed)),
+          ),
+        }),
+        streamCallbacks: {
+          head: () => "<style>main{margin:0}</style>",
+          state: () => ({ ready: true }),
+        },
+      }),
+    );
+    const server = await listen(app);
+
+    try {
+      const res = await server.post("/stream", {
+        url: "/",
+        template,
+        nonce: "abc",
+      });
+      const html = await res.text();
+
+      expect(html).toContain("<head><style>main{margin:0}</style>");
+      expect(html).toMatch(/<script nonce="abc">\$RC=/);
+      expect(html).toContain(
+        '<script nonce="abc" type="application/json" id="__SSR_STATE__">',
+      );
+      expect(html).not.toMatch(/<script(?![^>]*nonce="abc")/);
+    } finally {
+      await server.close();
+    }
+  });
+});
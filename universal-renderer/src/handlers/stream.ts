@@ -1,15 +1,40 @@
-import type { RequestHandler } from "express";
-import { PassThrough } from "node:stream";
-import { renderToPipeableStream } from "react-dom/server.node";
-
-import { SSR_MARKERS } from "@/constants";
+import type { RequestHandler, Response } from "express";
+
+import { sendError, TemplateUnknownError, ValidationError } from "@/errors";
+import { FALLBACK_HEADER } from "@/fallback";
+import { createStreamRoute } from "@/handlers/stream-route";
+import { defaultLogger, requestLogger } from "@/logger";
+import type { ResponseControl } from "@/response";
+import { streamDocument, type DocumentTarget } from "@/stream";
+import { TIMEOUT_HEADER } from "@/timeout";
+import { setServerTiming } from "@/timing";
 import type { StreamHandlerOptions } from "@/types";
 
 /**
- * Creates a streaming Server-Side Rendering route handler for React 18+ streaming SSR.
+ * Creates a streaming Server-Side Rendering route handler for React 18+ streaming SSR,
+ * or for another framework through the `renderer` option.
  *
  * This handler expects POST requests with `{ url: string, props?: any, template: string }`
  * and returns streamed HTML responses for faster perceived performance.
+ * With the `templates` option, clients may send `templateHash` alongside the template once
+ * and then only the hash; unknown hashes are answered with `412` and `TEMPLATE_UNKNOWN`.
+ * Failures before the shell is ready are answered with an {@link SSRError} JSON body:
+ * `400` for invalid requests, `504` when the render deadline is exceeded and `500` otherwise.
+ * Once streaming started the status can no longer change, so errors are collected and
+ * emitted as a `<script type="application/json" data-ssr-error>` marker before the template tail.
+ * Hydration state from `streamCallbacks.state` is written there too, once every boundary resolved.
+ * With the `assets` option, links for the client build are injected at the head marker and the
+ * hydration entry is passed to React as `bootstrapModules`.
+ * A `nonce` in the request is passed to React for its inline scripts and added to the asset
+ * links, the hydration state and error markers; markup from `streamCallbacks.head` is left as is.
+ * The status code, headers and cookies set on the {@link ResponseControl} passed to `setup` are
+ * applied right before the first byte is written; a redirect is answered
+ * without a body and aborts the render. Changes made after that point are ignored.
+ * With the `fallback` option, setup and shell failures are answered with the template instead, holding
+ * an empty root, the client assets and the error marker, so the client renders the page itself.
+ * After the deadline rendering is aborted and pending Suspense boundaries fall back to client rendering.
+ * The `streamMode` option decides when flushing starts: on shell-ready, or for crawlers once every
+ * Suspense boundary has resolved, so they receive complete HTML (see {@link requestStreamMode}).
  *
  * @template TContext - The type of context object used throughout the rendering pipeline
  * @param options - Configuration options for streaming SSR
@@ -40,97 +65,67 @@ export function createStreamHandler<TContext extends Record<string, any>>(
     throw new Error("streamCallbacks are required for streaming handler");
   }
 
-  const streamCallbacks = options.streamCallbacks;
+  const route = createStreamRoute<TContext, DocumentTarget>(
+    options,
+    (url, props, run) => streamDocument(options, url, props, run),
+  );
+  const logger = options.logger ?? defaultLogger;
 
   return async (req, res, next) => {
-    let context: TContext | undefined;
-
-    try {
-      const { url, props = {}, template = "" } = req.body;
-
-      if (!url) {
-        return res.status(400).send("URL is required");
-      }
-
-      // Validate that the template contains the required body marker
-      if (!template.includes(SSR_MARKERS.BODY)) {
-        return res
-          .status(400)
-          .send(`Template missing ${SSR_MARKERS.BODY} marker`);
-      }
-
-      // Set up the rendering context
-      context = await options.setup(url, props);
-
-      let reactNode;
-      if (streamCallbacks.node) {
-        reactNode = streamCallbacks.node(context!);
-      } else if (context && "app" in context) {
-        reactNode = context.app;
-      } else if (context && "jsx" in context) {
-        reactNode = context.jsx;
-      } else {
-        throw new Error("No app callback provided");
-      }
-
-      const { pipe } = renderToPipeableStream(reactNode, {
-        async onShellReady() {
-          res.setHeader("content-type", "text/html");
-
-          const [head, tail] = template.split(SSR_MARKERS.BODY);
-
-          const finalHead = await streamCallbacks.head?.(context!);
-          if (finalHead) res.write(head.replace(SSR_MARKERS.HEAD, finalHead));
-          else res.write(head);
-
-          const stream = new PassThrough();
-          const transform = streamCallbacks.transform?.(context!);
-          if (transform) {
-            stream.pipe(transform).pipe(res, { end: false });
-          } else {
-            stream.pipe(res, { end: false });
-          }
-
-          pipe(stream);
-
-          stream.on("end", () => {
-            res.end(tail);
-          });
-
-          res.on("finish", () => {
-            if (context && options.cleanup) options.cleanup(context);
-          });
-        },
-        onShellError(error) {
-          console.error("[SSR] Shell error");
-
-          if (options.error) {
-            options.error(error, req, res, next);
-          } else {
-            console.error(error);
-            res.status(500).send("Error during rendering");
-          }
-        },
-        onError(error) {
-          console.error("[SSR] Stream error");
+    const failure = await route(
+      {
+        body: req.body,
+        timeout: req.get(TIMEOUT_HEADER),
+        userAgent: req.get("user-agent"),
+        log: requestLogger(logger, req, res),
+      },
+      responseTarget(res),
+    );
+    if (!failure) return;
+
+    const { error, document } = failure;
+    if (document !== undefined) {
+      res.status(200);
+      res.setHeader(FALLBACK_HEADER, error.code);
+      res.setHeader("content-type", "text/html");
+      return res.end(document);
+    }
 
-          if (options.error) {
-            options.error(error, req, res, next);
-          } else {
-            console.error(error);
-            res.status(500).send("Error during rendering");
-          }
-        },
-      });
-    } catch (error) {
-      console.error("[SSR] Stream setup error");
+    if (
+      options.error &&
+      !error.retryable &&
+      !(error instanceof ValidationError) &&
+      !(error instanceof TemplateUnknownError)
+    ) {
+      options.error(error, req, res, next);
+    } else {
+      sendError(res, error);
+    }
+  };
+}
 
-      if (options.error) {
-        options.error(error, req, res, next);
-      } else {
-        console.error(error);
-        res.status(500).send("Internal Server Error");
-      }
+/**
+ * Writes a document to an Express response, applying the status, headers and cookies
+ * requested by the render; redirects end there.
+ */
+function responseTarget(res: Response): DocumentTarget {
+  const apply = (response: ResponseControl) => {
+    res.status(response.status ?? 200);
+    for (const [name, value] of response.headerEntries()) {
+      res.append(name, value);
     }
   };
+
+  return {
+    open(response, timer) {
+      setServerTiming(res, timer);
+      apply(response);
+      res.setHeader("content-type", "text/html");
+      return res;
+    },
+    redirect(response) {
+      apply(response);
+      res.end();
+    },
+  };
 }
@@ -1,14 +1,139 @@
+export { createAssetResolver } from "./assets";
+export type {
+  AssetResolver,
+  AssetsOptions,
+  ViteManifest,
+  ViteManifestChunk,
+  ViteSSRManifest,
+} from "./assets";
+export {
+  AUTH_SECRET_ENV,
+  captureRawBody,
+  createAuthMiddleware,
+  SIGNATURE_HEADER,
+  signRequest,
+  TIMESTAMP_HEADER,
+  verifyRawBody,
+  verifyRequest,
+} from "./auth";
+export type { AuthOptions, SignedRequest } from "./auth";
+export { createBodyParser } from "./body";
+export type { BodyParserOptions } from "./body";
+export { createMemoryCache } from "./cache";
+export type { MemoryCacheOptions } from "./cache";
+export { createCompressionMiddleware } from "./compression";
+export type { CompressionOptions } from "./compression";
 export { SSR_MARKERS } from "./constants";
+export { createDevServer } from "./dev";
 export {
+  AuthenticationError,
+  ERROR_CODE_HEADER,
+  PayloadTooLargeError,
+  RenderQueueFullError,
+  RenderTimeoutError,
+  RETRYABLE_HEADER,
+  SSRError,
+  TemplateUnknownError,
+  ValidationError,
+  WorkerQueueFullError,
+} from "./errors";
+export type { SSRErrorBody, SSRErrorCode, SSRErrorOptions } from "./errors";
+export { FALLBACK_HEADER } from "./fallback";
+export type { FallbackOptions, FallbackOutput } from "./fallback";
+export {
+  createBatchHandler,
+  createErrorHandler,
+  createFetchHandler,
   createHealthHandler,
+  createMetricsHandler,
+  createMetricsMiddleware,
   createSSRHandler,
   createStreamHandler,
 } from "./handlers";
-export { createServer, createServer as default } from "./server";
+export type { ErrorHandlerOptions } from "./handlers/error";
+export type { AppHealth, HealthHandlerOptions } from "./handlers/health";
+export { ServerLifecycle } from "./lifecycle";
+export type { ShutdownOptions } from "./lifecycle";
+export { RenderLimiter } from "./limiter";
+export type { RenderLimiterStats } from "./limiter";
+export { createConsoleLogger, getRequestId } from "./logger";
+export {
+  Counter,
+  createRenderMetrics,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  withMetricLabels,
+} from "./metrics";
+export type { MetricLabels, RenderMetrics } from "./metrics";
+export { isBot } from "./mode";
+export { decodeMsgpack } from "./msgpack";
+export { toNodeListener } from "./node";
+export { outputFile, parseSitemap, prerender } from "./prerender";
+export type {
+  PrerenderedPage,
+  PrerenderFailure,
+  PrerenderOptions,
+  PrerenderResult,
+  PrerenderRoute,
+} from "./prerender";
+export {
+  createVueRenderer,
+  reactRenderer,
+  reactWebRenderer,
+} from "./renderers";
+export type { VueServerRenderer } from "./renderers";
+export {
+  RESPONSE_HEADERS_HEADER,
+  ResponseControl,
+  serializeCookie,
+} from "./response";
+export type { CookieOptions, ResponseCookie, ResponseMeta } from "./response";
+export { createServer, createServer as default, startServer } from "./server";
+export {
+  parseState,
+  serializeState,
+  STATE_SCRIPT_ID,
+  stateScript,
+} from "./state";
+export { hashTemplate, TemplateRegistry } from "./templates";
+export type { SplitTemplate, TemplateRegistryOptions } from "./templates";
 export type {
+  AppOptions,
   BaseHandlerOptions,
+  BatchHandlerOptions,
+  BatchJob,
+  BatchResult,
+  DevServerOptions,
+  FetchHandler,
+  FetchHandlerOptions,
+  LogFields,
+  Logger,
+  RenderCacheOptions,
+  RenderCacheStore,
+  RenderLimitOptions,
   RenderOutput,
+  ProtocolResponse,
+  RenderPhase,
+  RunningServer,
+  SafeParseSchema,
+  SchemaIssue,
   ServerOptions,
+  SSREntryModule,
   SSRHandlerOptions,
+  StandardSchema,
+  StreamRenderer,
+  StreamRenderOptions,
+  StreamRenderResult,
   StreamHandlerOptions,
+  StreamMode,
+  StreamModeOptions,
+  ValidationOptions,
+  WebStreamCallbacks,
+  WebStreamRenderer,
+  WebStreamRenderOptions,
+  WebStreamRenderResult,
+  WorkerPoolOptions,
 } from "./types";
+export { WorkerPool } from "./workers";
+export type { WorkerPoolStats } from "./workers";
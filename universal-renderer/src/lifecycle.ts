@@ -0,0 +1,145 @@
+import type { RequestHandler, Response } from "express";
+import type { Server } from "node:http";
+
+import { defaultLogger } from "@/logger";
+import type { Logger } from "@/types";
+
+/**
+ * Options controlling how a server drains on shutdown.
+ */
+export type ShutdownOptions = {
+  /**
+   * Maximum time to wait for in-flight renders and open streams, in milliseconds.
+   * Connections still open afterwards are closed.
+   */
+  timeout: number;
+
+  /**
+   * How long to keep accepting connections before closing the listener, in milliseconds,
+   * so load balancers see `/health` answer `503` and stop routing to the server instead
+   * of having their probes refused.
+   * @default 0
+   */
+  delay?: number;
+
+  /** Called once the server has drained, e.g. to close database connections. */
+  onShutdown?: () => void | Promise<void>;
+};
+
+/**
+ * Tracks in-flight responses and drains them when the server shuts down.
+ *
+ * While draining, `/health` reports `503` so load balancers stop routing new
+ * requests, and responses ask clients to close their keep-alive connections. The
+ * listener stays open for the shutdown `delay` so that those probes are answered.
+ */
+export class ServerLifecycle {
+  /** Whether the server is shutting down. */
+  draining = false;
+
+  private readonly inFlight = new Set<Response>();
+  private readonly closers: (() => void | Promise<void>)[] = [];
+  private shutdownPromise?: Promise<void>;
+  private onIdle?: () => void;
+
+  /**
+   * @param logger - Logger for shutdown progress
+   */
+  constructor(private readonly logger: Logger = defaultLogger) {}
+
+  /** Number of responses that have not finished yet. */
+  get pending(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Creates middleware tracking every response until its connection closes.
+   */
+  track(): RequestHandler {
+    return (req, res, next) => {
+      if (this.draining) res.setHeader("Connection", "close");
+
+      this.inFlight.add(res);
+      res.on("close", () => {
+        this.inFlight.delete(res);
+        if (!this.pending) this.onIdle?.();
+      });
+      next();
+    };
+  }
+
+  /**
+   * Registers a resource to release after the server has drained.
+   */
+  onClose(close: () => void | Promise<void>) {
+    this.closers.push(close);
+  }
+
+  /**
+   * Starts draining, keeps accepting connections for `delay`, then stops accepting them,
+   * waits for in-flight responses up to `timeout`, releases registered resources and
+   * runs `onShutdown`.
+   *
+   * Calling it again returns the same promise.
+   */
+  shutdown(server: Server, options: ShutdownOptions): Promise<void> {
+    this.shutdownPromise ??= this.drain(server, options);
+    return this.shutdownPromise;
+  }
+
+  private async drain(server: Server, options: ShutdownOptions) {
+    this.draining = true;
+    this.logger.info(
+      { pending: this.pending, timeout: options.timeout, delay: options.delay },
+      "Shutting down",
+    );
+
+    // Keep answering while load balancers notice the failing health checks
+    if (options.delay) {
+      await new Promise((resolve) => setTimeout(resolve, options.delay));
+    }
+
+    // Stops accepting connections; idle keep-alive connections are closed right away
+    const closed = new Promise<void>((resolve) =>
+      server.close(() => resolve()),
+    );
+
+    const drained = await this.waitForResponses(options.timeout);
+    if (!drained) {
+      this.logger.warn(
+        { pending: this.pending },
+        "Shutdown timed out, closing open connections",
+      );
+    }
+    server.closeAllConnections();
+    await closed;
+
+    for (const close of this.closers) {
+      try {
+        await close();
+      } catch (error) {
+        this.logger.error({ err: error }, "Failed to release resource");
+      }
+    }
+
+    try {
+      await options.onShutdown?.();
+    } catch (error) {
+      this.logger.error({ err: error }, "onShutdown failed");
+    }
+
+    this.logger.info({}, "Shutdown complete");
+  }
+
+  private waitForResponses(timeout: number): Promise<boolean> {
+    if (!this.pending) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const deadline = setTimeout(() => resolve(false), timeout);
+      this.onIdle = () => {
+        clearTimeout(deadline);
+        resolve(true);
+      };
+    });
+  }
+}
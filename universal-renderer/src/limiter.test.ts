@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { RenderQueueFullError } from "@/errors";
+import { RenderLimiter } from "./limiter";
+
+describe("RenderLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should queue requests beyond the concurrency limit in order", async () => {
+    const limiter = new RenderLimiter({ maxConcurrentRenders: 1 });
+    const order: number[] = [];
+
+    const first = await limiter.acquire();
+    const second = limiter.acquire().then((release) => {
+      order.push(2);
+      return release;
+    });
+    const third = limiter.acquire().then((release) => {
+      order.push(3);
+      return release;
+    });
+    expect(limiter.stats()).toEqual({
+      active: 1,
+      maxConcurrent: 1,
+      queued: 2,
+      maxQueue: 100,
+    });
+
+    first();
+    first();
+    (await second)();
+    (await third)();
+
+    expect(order).toEqual([2, 3]);
+    expect(limiter.stats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it("should reject immediately once the queue is full", async () => {
+    const limiter = new RenderLimiter({
+      maxConcurrentRenders: 1,
+      maxQueueSize: 0,
+    });
+    await limiter.acquire();
+
+    const error = await limiter.acquire().catch((error) => error);
+    expect(error).toBeInstanceOf(RenderQueueFullError);
+    expect(error).toMatchObject({
+      status: 503,
+      code: "OVERLOADED",
+      retryable: true,
+      retryAfter: 1,
+    });
+  });
+
+  it("should reject requests waiting longer than the queue timeout", async () => {
+    vi.useFakeTimers();
+    const limiter = new RenderLimiter({
+      maxConcurrentRenders: 1,
+      queueTimeout: 50,
+    });
+    const release = await limiter.acquire();
+
+    const waiting = limiter.acquire();
+    const rejected = expect(waiting).rejects.toThrow(
+      "Waited 50ms for a render slot",
+    );
+    await vi.advanceTimersByTimeAsync(50);
+    await rejected;
+
+    expect(limiter.stats().queued).toBe(0);
+    release();
+    expect(limiter.stats().active).toBe(0);
+  });
+});
@@ -0,0 +1,149 @@
+import type { RequestHandler } from "express";
+
+import { RenderQueueFullError, sendError } from "@/errors";
+import { defaultLogger, requestLogger } from "@/logger";
+import type { Logger, RenderLimitOptions } from "@/types";
+
+/**
+ * Statistics reported by {@link RenderLimiter.stats}.
+ */
+export type RenderLimiterStats = {
+  /** Requests currently rendering. */
+  active: number;
+  /** Maximum number of requests rendering at the same time. */
+  maxConcurrent: number;
+  /** Requests waiting for a render slot. */
+  queued: number;
+  /** Maximum number of waiting requests. */
+  maxQueue: number;
+};
+
+type Waiter = {
+  resolve: (release: () => void) => void;
+  timer: NodeJS.Timeout;
+};
+
+/**
+ * Bounds the number of concurrent renders so that traffic spikes are shed early
+ * instead of piling work onto the event loop until every render times out.
+ *
+ * Requests beyond `maxConcurrentRenders` wait in a FIFO queue. Once `maxQueueSize`
+ * requests are waiting, or a request waited longer than `queueTimeout`, it is
+ * rejected with {@link RenderQueueFullError} so that the client falls back quickly.
+ */
+export class RenderLimiter {
+  private readonly queue: Waiter[] = [];
+  private readonly maxConcurrent: number;
+  private readonly maxQueue: number;
+  private readonly queueTimeout: number;
+  private active = 0;
+
+  /**
+   * @param options - Concurrency and queue limits
+   */
+  constructor(
+    options: RenderLimitOptions &
+      Required<Pick<RenderLimitOptions, "maxConcurrentRenders">>,
+  ) {
+    this.maxConcurrent = Math.max(1, options.maxConcurrentRenders);
+    this.maxQueue = options.maxQueueSize ?? 100;
+    this.queueTimeout = options.queueTimeout ?? 1000;
+  }
+
+  /**
+   * Waits for a render slot.
+   *
+   * @returns A function releasing the slot; calling it more than once has no effect
+   * @throws {RenderQueueFullError} When the queue is full or the wait times out
+   */
+  acquire(): Promise<() => void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve(this.releaser());
+    }
+
+    if (this.queue.length >= this.maxQueue) {
+      return Promise.reject(
+        new RenderQueueFullError(
+          `Render queue is full (${this.maxQueue} waiting)`,
+        ),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          reject(
+            new RenderQueueFullError(
+              `Waited ${this.queueTimeout}ms for a render slot`,
+            ),
+          );
+        }, this.queueTimeout),
+      };
+      this.queue.push(waiter);
+    });
+  }
+
+  /**
+   * Creates middleware holding a render slot until the response closes, and
+   * answering `503` with `Retry-After` when none is available.
+   *
+   * @param logger - Logger for rejected requests
+   */
+  limit(logger: Logger = defaultLogger): RequestHandler {
+    return (req, res, next) => {
+      let closed = false;
+      let release: (() => void) | undefined;
+      res.on("close", () => {
+        closed = true;
+        release?.();
+      });
+
+      this.acquire().then(
+        (acquired) => {
+          // The client may have given up while waiting
+          if (closed) return acquired();
+          release = acquired;
+          next();
+        },
+        (error: RenderQueueFullError) => {
+          requestLogger(logger, req, res).warn(
+            { err: error, ...this.stats() },
+            "Render rejected",
+          );
+          sendError(res, error);
+        },
+      );
+    };
+  }
+
+  /** Returns the current limiter statistics. */
+  stats(): RenderLimiterStats {
+    return {
+      active: this.active,
+      maxConcurrent: this.maxConcurrent,
+      queued: this.queue.length,
+      maxQueue: this.maxQueue,
+    };
+  }
+
+  private releaser(): () => void {
+    let released = false;
+
+    return () => {
+      if (released) return;
+      released = true;
+
+      // Hand the slot straight to the next waiter
+      const next = this.queue.shift();
+      if (next) {
+        clearTimeout(next.timer);
+        next.resolve(this.releaser());
+      } else {
+        this.active--;
+      }
+    };
+  }
+}
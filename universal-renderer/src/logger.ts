@@ -0,0 +1,145 @@
+import type { Request, RequestHandler, Response } from "express";
+
+import type { LogFields, Logger } from "@/types";
+
+/** Header carrying the request id, read from requests and echoed on responses. */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/** Incoming request ids are only trusted if they are short and free of control characters. */
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Converts an `err` field into a plain object so it survives `JSON.stringify`.
+ */
+function serializeFields(fields: LogFields): LogFields {
+  const { err } = fields;
+  if (!(err instanceof Error)) return fields;
+
+  return {
+    ...fields,
+    err: { type: err.name, message: err.message, stack: err.stack },
+  };
+}
+
+/**
+ * Creates a logger writing one JSON object per line to the console.
+ *
+ * Errors and warnings go to `console.error`, everything else to `console.log`.
+ * This is the default logger; pass a pino instance (or anything with the same
+ * methods) as the `logger` option to replace it.
+ *
+ * @param bindings - Fields added to every line
+ * @returns A pino-compatible logger
+ */
+export function createConsoleLogger(bindings: LogFields = {}): Logger {
+  const write =
+    (level: string, output: (line: string) => void) =>
+    (fields: LogFields, msg?: string) => {
+      output(
+        JSON.stringify({
+          level,
+          time: new Date().toISOString(),
+          ...bindings,
+          ...serializeFields(fields),
+          ...(msg && { msg }),
+        }),
+      );
+    };
+
+  return {
+    error: write("error", console.error),
+    warn: write("warn", console.error),
+    info: write("info", console.log),
+    debug: write("debug", console.log),
+    child: (fields) => createConsoleLogger({ ...bindings, ...fields }),
+  };
+}
+
+/** Logger used by handlers that are not given one. */
+export const defaultLogger = createConsoleLogger();
+
+/**
+ * Returns a logger whose lines all carry `bindings`, using `child()` when the logger supports it.
+ */
+export function bindLogger(logger: Logger, bindings: LogFields): Logger {
+  if (logger.child) return logger.child(bindings);
+
+  return {
+    error: (fields, msg) => logger.error({ ...bindings, ...fields }, msg),
+    warn: (fields, msg) => logger.warn({ ...bindings, ...fields }, msg),
+    info: (fields, msg) => logger.info({ ...bindings, ...fields }, msg),
+    debug: (fields, msg) => logger.debug?.({ ...bindings, ...fields }, msg),
+  };
+}
+
+/**
+ * Returns the incoming request id when it is valid, or a new one.
+ */
+export function resolveRequestId(incoming: string | null | undefined): string {
+  return incoming && VALID_REQUEST_ID.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+}
+
+/**
+ * Returns the id of the current request.
+ *
+ * The id is taken from the `X-Request-Id` header when present and valid, or generated
+ * otherwise. It is stored on `res.locals` and echoed back in the response header.
+ */
+export function getRequestId(req: Request, res: Response): string {
+  if (res.locals.requestId) return res.locals.requestId;
+
+  const requestId = resolveRequestId(req.get(REQUEST_ID_HEADER));
+
+  res.locals.requestId = requestId;
+  if (!res.headersSent) res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  return requestId;
+}
+
+/**
+ * Returns a logger for the current request, bound to its id and route.
+ */
+export function requestLogger(
+  logger: Logger,
+  req: Request,
+  res: Response,
+): Logger {
+  return bindLogger(logger, {
+    requestId: getRequestId(req, res),
+    route: req.baseUrl + req.path,
+  });
+}
+
+/**
+ * Creates middleware that assigns a request id and, optionally, logs every completed request.
+ *
+ * @param logger - The logger to write access logs to
+ * @param accessLog - Whether to log one line per completed request
+ * @returns Express middleware
+ */
+export function createRequestLogMiddleware(
+  logger: Logger,
+  accessLog = false,
+): RequestHandler {
+  return (req, res, next) => {
+    const log = requestLogger(logger, req, res);
+
+    if (accessLog) {
+      const startedAt = performance.now();
+      res.on("finish", () => {
+        log.info(
+          {
+            method: req.method,
+            status: res.statusCode,
+            duration: performance.now() - startedAt,
+          },
+          "request completed",
+        );
+      });
+    }
+
+    next();
+  };
+}
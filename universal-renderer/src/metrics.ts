@@ -0,0 +1,304 @@
+import { monitorEventLoopDelay, type IntervalHistogram } from "node:perf_hooks";
+
+/** Label values attached to a single metric sample. */
+export type MetricLabels = Record<string, string | number>;
+
+/** Default histogram buckets in seconds, suited to render latencies. */
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const escapeLabel = (value: string | number) =>
+  String(value)
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+
+const formatLabels = (labels: MetricLabels) => {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`,
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+};
+
+const labelKey = (labels: MetricLabels) =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+/**
+ * Base class for metrics exposed in the Prometheus text format.
+ */
+abstract class Metric<TSample> {
+  protected readonly samples = new Map<
+    string,
+    { labels: MetricLabels; sample: TSample }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram",
+  ) {}
+
+  protected sample(labels: MetricLabels, create: () => TSample): TSample {
+    const key = labelKey(labels);
+    let entry = this.samples.get(key);
+    if (!entry) {
+      entry = { labels, sample: create() };
+      this.samples.set(key, entry);
+    }
+    return entry.sample;
+  }
+
+  /** Returns a view of this metric recording every sample with `labels` added. */
+  withLabels(labels: MetricLabels): this {
+    const view: this = Object.create(this);
+    view.sample = (own, create) => this.sample({ ...labels, ...own }, create);
+    return view;
+  }
+
+  /** Renders the metric, including HELP and TYPE lines. */
+  serialize(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, sample } of this.samples.values()) {
+      lines.push(...this.lines(labels, sample));
+    }
+    return lines.join("\n");
+  }
+
+  protected abstract lines(labels: MetricLabels, sample: TSample): string[];
+}
+
+/**
+ * A monotonically increasing counter.
+ */
+export class Counter extends Metric<{ value: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: MetricLabels = {}, value = 1) {
+    this.sample(labels, () => ({ value: 0 })).value += value;
+  }
+
+  protected lines(labels: MetricLabels, sample: { value: number }) {
+    return [`${this.name}${formatLabels(labels)} ${sample.value}`];
+  }
+}
+
+/**
+ * A value that can go up and down. An optional `collect` callback refreshes it before each scrape.
+ */
+export class Gauge extends Metric<{ value: number }> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly collect?: (gauge: Gauge) => void,
+  ) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: MetricLabels, value: number) {
+    this.sample(labels, () => ({ value: 0 })).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, value = 1) {
+    this.sample(labels, () => ({ value: 0 })).value += value;
+  }
+
+  dec(labels: MetricLabels = {}, value = 1) {
+    this.inc(labels, -value);
+  }
+
+  serialize() {
+    this.collect?.(this);
+    return super.serialize();
+  }
+
+  protected lines(labels: MetricLabels, sample: { value: number }) {
+    return [`${this.name}${formatLabels(labels)} ${sample.value}`];
+  }
+}
+
+type HistogramSample = { counts: number[]; sum: number; count: number };
+
+/**
+ * A histogram with cumulative buckets.
+ */
+export class Histogram extends Metric<HistogramSample> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: readonly number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: MetricLabels, value: number) {
+    const sample = this.sample(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) sample.counts[index]!++;
+    });
+    sample.sum += value;
+    sample.count++;
+  }
+
+  protected lines(labels: MetricLabels, sample: HistogramSample) {
+    const bucketLines = this.buckets.map(
+      (bound, index) =>
+        `${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${sample.counts[index]}`,
+    );
+
+    return [
+      ...bucketLines,
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${sample.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sample.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${sample.count}`,
+    ];
+  }
+}
+
+/**
+ * A collection of metrics serialized together in the Prometheus text format.
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric<any>[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect?: (gauge: Gauge) => void): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: readonly number[]) {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /** Renders every registered metric in the Prometheus text exposition format. */
+  serialize(): string {
+    return this.metrics.map((metric) => metric.serialize()).join("\n") + "\n";
+  }
+
+  private register<T extends Metric<any>>(metric: T): T {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// One event-loop monitor per process, shared by every set of render metrics; monitors
+// cannot be garbage collected while enabled
+let eventLoopDelay: IntervalHistogram | undefined;
+
+/**
+ * The metrics recorded by the SSR handlers.
+ */
+export type RenderMetrics = {
+  /** The registry holding every metric; register custom metrics here. */
+  registry: MetricsRegistry;
+  /** Requests by route and status code. */
+  requests: Counter;
+  /** Durations of the setup, render and cleanup phases by route. */
+  phaseDuration: Histogram;
+  /** Time from receiving a stream request until the shell is flushed. */
+  timeToShell: Histogram;
+  /** Time from receiving a stream request until the stream ends. */
+  streamDuration: Histogram;
+  /** Renders currently in progress by route. */
+  inFlight: Gauge;
+};
+
+/**
+ * Creates the metrics recorded by the SSR handlers, including event-loop lag.
+ * Event-loop lag is measured by a single monitor per process, so when several sets of
+ * metrics are scraped, each scrape reports the lag since the previous scrape of any of them.
+ *
+ * @returns A fresh set of metrics with its own registry
+ *
+ * @example
+ * ```typescript
+ * const metrics = createRenderMetrics();
+ *
+ * app.post('/render', createSSRHandler({ ...options, metrics }));
+ * app.get('/metrics', createMetricsHandler(metrics));
+ * ```
+ */
+export function createRenderMetrics(): RenderMetrics {
+  const registry = new MetricsRegistry();
+
+  if (!eventLoopDelay) {
+    eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+    eventLoopDelay.enable();
+  }
+  const monitor = eventLoopDelay;
+
+  // Event-loop lag is reported since the previous scrape, in seconds
+  registry.gauge(
+    "ssr_event_loop_lag_seconds",
+    "Event-loop lag since the previous scrape",
+    (gauge) => {
+      const mean = monitor.count ? monitor.mean : 0;
+      const p99 = monitor.count ? monitor.percentile(99) : 0;
+      gauge.set({ quantile: "mean" }, mean / 1e9);
+      gauge.set({ quantile: "0.99" }, p99 / 1e9);
+      monitor.reset();
+    },
+  );
+
+  return {
+    registry,
+    requests: registry.counter(
+      "ssr_requests_total",
+      "SSR requests by route and status code",
+    ),
+    phaseDuration: registry.histogram(
+      "ssr_phase_duration_seconds",
+      "Duration of the setup, render and cleanup phases",
+    ),
+    timeToShell: registry.histogram(
+      "ssr_stream_time_to_shell_seconds",
+      "Time from request until the streaming shell is flushed",
+    ),
+    streamDuration: registry.histogram(
+      "ssr_stream_duration_seconds",
+      "Total duration of streaming responses",
+    ),
+    inFlight: registry.gauge(
+      "ssr_renders_in_flight",
+      "Renders currently in progress",
+    ),
+  };
+}
+
+/**
+ * Returns views of the render metrics adding `labels` to every sample, e.g. the `app`
+ * of an entry in `ServerOptions.apps`. The samples are recorded in the original registry.
+ *
+ * @param metrics - The metrics to record into
+ * @param labels - The labels added to every sample
+ * @returns Metrics sharing the registry of `metrics`
+ */
+export function withMetricLabels(
+  metrics: RenderMetrics,
+  labels: MetricLabels,
+): RenderMetrics {
+  return {
+    registry: metrics.registry,
+    requests: metrics.requests.withLabels(labels),
+    phaseDuration: metrics.phaseDuration.withLabels(labels),
+    timeToShell: metrics.timeToShell.withLabels(labels),
+    streamDuration: metrics.streamDuration.withLabels(labels),
+    inFlight: metrics.inFlight.withLabels(labels),
+  };
+}
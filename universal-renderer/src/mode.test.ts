@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { isBot, requestStreamMode } from "./mode";
+
+const chrome =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36";
+
+describe("isBot", () => {
+  it("should detect crawlers and link-preview fetchers", () => {
+    expect(
+      isBot(
+        "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)",
+      ),
+    ).toBe(true);
+    expect(isBot("facebookexternalhit/1.1")).toBe(true);
+    expect(isBot("Slackbot-LinkExpanding 1.0")).toBe(true);
+    expect(isBot(chrome)).toBe(false);
+  });
+});
+
+describe("requestStreamMode", () => {
+  it("should wait for all content for bots in auto mode", () => {
+    const auto = { streamMode: "auto" } as const;
+    expect(
+      requestStreamMode(auto, { userAgent: "Googlebot/2.1" }, chrome),
+    ).toBe("allReady");
+    expect(requestStreamMode(auto, {}, "bingbot/2.0")).toBe("allReady");
+    expect(requestStreamMode(auto, {}, chrome)).toBe("shell");
+    expect(requestStreamMode(auto, {}, null)).toBe("shell");
+  });
+
+  it("should flush the shell by default", () => {
+    expect(requestStreamMode({}, {}, "Googlebot/2.1")).toBe("shell");
+  });
+
+  it("should prefer the requested mode over the configured one", () => {
+    expect(requestStreamMode({ streamMode: "shell" }, {}, "Googlebot")).toBe(
+      "shell",
+    );
+    expect(
+      requestStreamMode({ streamMode: "shell" }, { mode: "allReady" }, null),
+    ).toBe("allReady");
+    expect(
+      requestStreamMode({ streamMode: "auto", isBot: () => true }, {}, chrome),
+    ).toBe("allReady");
+    expect(() => requestStreamMode({}, { mode: "eager" }, null)).toThrow(
+      'mode must be "shell" or "allReady"',
+    );
+  });
+});
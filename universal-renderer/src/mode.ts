@@ -0,0 +1,49 @@
+import { ValidationError } from "@/errors";
+import type { StreamMode, StreamModeOptions } from "@/types";
+
+/** Search engine crawlers, link-preview fetchers and headless audit tools. */
+const BOT_PATTERN =
+  /bot\b|bot\/|crawl|spider|slurp|facebookexternalhit|facebookcatalog|embedly|quora link preview|pinterest|vkshare|whatsapp|telegram|skypeuripreview|redditbot|linkedinbot|discordbot|slackbot|bingpreview|lighthouse|headlesschrome|w3c_validator/i;
+
+/**
+ * Whether a user agent belongs to a crawler or link-preview fetcher, which should get
+ * complete HTML instead of a shell full of Suspense fallbacks.
+ *
+ * @param userAgent - The `User-Agent` of the page request
+ */
+export function isBot(userAgent: string): boolean {
+  return BOT_PATTERN.test(userAgent);
+}
+
+/**
+ * Picks the stream mode of a request: a `mode` field in the body wins, then the
+ * configured `streamMode`. In `auto` mode, bots get `allReady`; their user agent is
+ * read from the `userAgent` body field, as sent by the Rails client, or the request header.
+ *
+ * @param options - The handler's `streamMode` and `isBot` options
+ * @param body - The parsed request body
+ * @param userAgent - The `User-Agent` header of the request
+ * @returns `shell` to flush on shell-ready, `allReady` to wait for every Suspense boundary
+ * @throws {ValidationError} When the request asks for an unknown mode
+ */
+export function requestStreamMode(
+  options: StreamModeOptions,
+  body: unknown,
+  userAgent: string | null | undefined,
+): StreamMode {
+  const fields = (body ?? {}) as Record<string, unknown>;
+
+  if (fields.mode !== undefined) {
+    if (fields.mode !== "shell" && fields.mode !== "allReady") {
+      throw new ValidationError('mode must be "shell" or "allReady"', "mode");
+    }
+    return fields.mode;
+  }
+
+  const mode = options.streamMode ?? "shell";
+  if (mode !== "auto") return mode;
+
+  const agent =
+    typeof fields.userAgent === "string" ? fields.userAgent : userAgent;
+  return agent && (options.isBot ?? isBot)(agent) ? "allReady" : "shell";
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { decodeMsgpack } from "./msgpack";
+
+const bytes = (...parts: (number | string)[]) =>
+  Uint8Array.from(
+    parts.flatMap((part) =>
+      typeof part === "string" ? [...Buffer.from(part)] : [part],
+    ),
+  );
+
+describe("decodeMsgpack", () => {
+  it("should decode the request envelope", () => {
+    // { url: "/", props: { n: 1, list: [true, null, -1], big: 2 ** 32 } }
+    const data = bytes(
+      0x82,
+      0xa3,
+      "url",
+      0xa1,
+      "/",
+      0xa5,
+      "props",
+      0x83,
+      0xa1,
+      "n",
+      0x01,
+      0xa4,
+      "list",
+      0x93,
+      0xc3,
+      0xc0,
+      0xff,
+      0xa3,
+      "big",
+      0xcf,
+      0,
+      0,
+      0,
+      1,
+      0,
+      0,
+      0,
+      0,
+    );
+
+    expect(decodeMsgpack(data)).toEqual({
+      url: "/",
+      props: { n: 1, list: [true, null, -1], big: 2 ** 32 },
+    });
+  });
+
+  it("should decode timestamps, floats and binary data", () => {
+    expect(decodeMsgpack(bytes(0xd6, 0xff, 0x65, 0x53, 0xf1, 0x00))).toEqual(
+      new Date(1_700_000_000_000),
+    );
+    expect(decodeMsgpack(bytes(0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0, 0))).toBe(1.5);
+    expect(decodeMsgpack(bytes(0xc4, 2, 1, 2))).toEqual(Uint8Array.of(1, 2));
+  });
+
+  it("should keep __proto__ keys as plain properties", () => {
+    const decoded = decodeMsgpack(
+      bytes(0x81, 0xa9, "__proto__", 0x81, 0xa5, "admin", 0xc3),
+    ) as Record<string, any>;
+
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(decoded.admin).toBeUndefined();
+    expect(Object.keys(decoded)).toEqual(["__proto__"]);
+  });
+
+  it("should reject truncated and trailing data", () => {
+    expect(() => decodeMsgpack(bytes(0xa3, "ur"))).toThrow(
+      "Unexpected end of MessagePack data",
+    );
+    expect(() => decodeMsgpack(bytes(0x01, 0x02))).toThrow(
+      "Unexpected trailing MessagePack data",
+    );
+  });
+});
@@ -0,0 +1,192 @@
+/** Content types accepted for MessagePack request bodies. */
+export const MSGPACK_TYPES = new Set([
+  "application/msgpack",
+  "application/x-msgpack",
+  "application/vnd.msgpack",
+]);
+
+/** Extension type of MessagePack timestamps. */
+const TIMESTAMP_EXT = -1;
+
+/**
+ * Decodes a MessagePack document, as sent for the `{ url, props, template }` envelope.
+ *
+ * Maps become plain objects with string keys, binary data becomes a `Uint8Array`, and
+ * timestamps become `Date`s. 64-bit integers beyond `Number.MAX_SAFE_INTEGER` become
+ * `BigInt`s, which `serializeState` supports. Other extension types are rejected.
+ *
+ * @param data - The encoded document
+ * @returns The decoded value
+ * @throws {TypeError} When the document is malformed or has trailing bytes
+ */
+export function decodeMsgpack(data: Uint8Array): unknown {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const text = new TextDecoder("utf-8", { fatal: true });
+  let offset = 0;
+
+  const take = (length: number) => {
+    if (offset + length > data.byteLength) {
+      throw new TypeError("Unexpected end of MessagePack data");
+    }
+    const start = offset;
+    offset += length;
+    return start;
+  };
+
+  const uint = (bytes: 1 | 2 | 4 | 8): number | bigint => {
+    const at = take(bytes);
+    if (bytes === 1) return view.getUint8(at);
+    if (bytes === 2) return view.getUint16(at);
+    if (bytes === 4) return view.getUint32(at);
+    return safe(view.getBigUint64(at));
+  };
+
+  const int = (bytes: 1 | 2 | 4 | 8): number | bigint => {
+    const at = take(bytes);
+    if (bytes === 1) return view.getInt8(at);
+    if (bytes === 2) return view.getInt16(at);
+    if (bytes === 4) return view.getInt32(at);
+    return safe(view.getBigInt64(at));
+  };
+
+  const bytes = (length: number) => {
+    const at = take(length);
+    return data.subarray(at, at + length);
+  };
+
+  const str = (length: number) => text.decode(bytes(length));
+
+  const array = (length: number) => {
+    const items: unknown[] = [];
+    for (let i = 0; i < length; i++) items.push(value());
+    return items;
+  };
+
+  const map = (length: number) => {
+    const object: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = String(value());
+      // Define the key instead of assigning it, so `__proto__` stays a plain property
+      Object.defineProperty(object, key, {
+        value: value(),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return object;
+  };
+
+  const ext = (length: number) => {
+    const type = view.getInt8(take(1));
+    const at = take(length);
+    if (type !== TIMESTAMP_EXT) {
+      throw new TypeError(`Unsupported MessagePack extension type ${type}`);
+    }
+
+    if (length === 4) return new Date(view.getUint32(at) * 1000);
+    if (length === 8) {
+      const high = view.getUint32(at);
+      const low = view.getUint32(at + 4);
+      const seconds = (high & 0x3) * 2 ** 32 + low;
+      return new Date(seconds * 1000 + Math.floor(high / 4 / 1e6));
+    }
+    if (length === 12) {
+      const nanoseconds = view.getUint32(at);
+      const seconds = Number(view.getBigInt64(at + 4));
+      return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+    }
+    throw new TypeError("Invalid MessagePack timestamp");
+  };
+
+  const length = (bytes: 1 | 2 | 4) => uint(bytes) as number;
+
+  const value = (): unknown => {
+    const byte = view.getUint8(take(1));
+
+    if (byte <= 0x7f) return byte;
+    if (byte <= 0x8f) return map(byte & 0x0f);
+    if (byte <= 0x9f) return array(byte & 0x0f);
+    if (byte <= 0xbf) return str(byte & 0x1f);
+    if (byte >= 0xe0) return byte - 0x100;
+
+    switch (byte) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return bytes(length(1));
+      case 0xc5:
+        return bytes(length(2));
+      case 0xc6:
+        return bytes(length(4));
+      case 0xc7:
+        return ext(length(1));
+      case 0xc8:
+        return ext(length(2));
+      case 0xc9:
+        return ext(length(4));
+      case 0xca:
+        return view.getFloat32(take(4));
+      case 0xcb:
+        return view.getFloat64(take(8));
+      case 0xcc:
+        return uint(1);
+      case 0xcd:
+        return uint(2);
+      case 0xce:
+        return uint(4);
+      case 0xcf:
+        return uint(8);
+      case 0xd0:
+        return int(1);
+      case 0xd1:
+        return int(2);
+      case 0xd2:
+        return int(4);
+      case 0xd3:
+        return int(8);
+      case 0xd4:
+        return ext(1);
+      case 0xd5:
+        return ext(2);
+      case 0xd6:
+        return ext(4);
+      case 0xd7:
+        return ext(8);
+      case 0xd8:
+        return ext(16);
+      case 0xd9:
+        return str(length(1));
+      case 0xda:
+        return str(length(2));
+      case 0xdb:
+        return str(length(4));
+      case 0xdc:
+        return array(length(2));
+      case 0xdd:
+        return array(length(4));
+      case 0xde:
+        return map(length(2));
+      case 0xdf:
+        return map(length(4));
+      default:
+        throw new TypeError(`Invalid MessagePack byte 0x${byte.toString(16)}`);
+    }
+  };
+
+  const result = value();
+  if (offset !== data.byteLength) {
+    throw new TypeError("Unexpected trailing MessagePack data");
+  }
+  return result;
+}
+
+const safe = (value: bigint) =>
+  value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+  value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value;
@@ -0,0 +1,96 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+
+import type { FetchHandler } from "@/types";
+
+/**
+ * Converts a Node request into a Web `Request`.
+ *
+ * Bodies already parsed by middleware such as `express.json()` are re-serialized as
+ * plain JSON, otherwise the raw request stream is passed on.
+ */
+function toRequest(req: IncomingMessage & { body?: unknown }): Request {
+  const url = new URL(
+    req.url ?? "/",
+    `http://${req.headers.host ?? "localhost"}`,
+  );
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      headers.append(name, entry);
+    }
+  }
+
+  if (req.method === "GET" || req.method === "HEAD") {
+    return new Request(url, { method: req.method, headers });
+  }
+
+  if (req.body !== undefined) {
+    headers.delete("content-length");
+    headers.delete("content-encoding");
+    headers.set("content-type", "application/json");
+    return new Request(url, {
+      method: req.method,
+      headers,
+      body: JSON.stringify(req.body),
+    });
+  }
+
+  return new Request(url, {
+    method: req.method,
+    headers,
+    body: Readable.toWeb(req) as ReadableStream<Uint8Array>,
+    duplex: "half",
+  } as RequestInit);
+}
+
+/**
+ * Adapts a {@link FetchHandler} to Node's `http` module.
+ *
+ * The listener can be passed to `http.createServer` or mounted as Express middleware.
+ * Closing the connection cancels the response stream, which aborts a streaming render.
+ *
+ * @param handler - Handler created with `createFetchHandler`
+ * @returns A `request` listener for `http.createServer`
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ * import { createFetchHandler, toNodeListener } from 'universal-renderer';
+ *
+ * createServer(toNodeListener(createFetchHandler(options))).listen(3001);
+ * ```
+ */
+export function toNodeListener(
+  handler: FetchHandler,
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    let response: Response;
+    try {
+      response = await handler(toRequest(req));
+    } catch {
+      res.statusCode = 500;
+      res.end("Internal Server Error");
+      return;
+    }
+
+    res.statusCode = response.status;
+    response.headers.forEach((value, name) => res.appendHeader(name, value));
+
+    if (!response.body) {
+      res.end();
+      return;
+    }
+
+    await pipeline(
+      Readable.fromWeb(response.body as NodeReadableStream),
+      res,
+    ).catch(() => {
+      // The client went away; the pipeline already cancelled the render
+    });
+  };
+}
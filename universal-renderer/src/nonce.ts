@@ -0,0 +1,15 @@
+// Opening tags of elements a Content-Security-Policy nonce applies to, unless they carry one
+const NONCE_TARGETS = /<(?:script|style|link)\b(?![^>]*\snonce=)/gi;
+
+/**
+ * Adds a Content-Security-Policy nonce to the `<script>`, `<style>` and `<link>`
+ * elements of an HTML fragment that do not have one yet.
+ *
+ * @param html - Markup injected by the library, never markup rendered by the app, where a
+ *   nonce would also authorize scripts injected into it
+ * @param nonce - The validated nonce of the request; the markup is returned as is without one
+ */
+export function addNonce(html: string, nonce?: string): string {
+  if (!nonce) return html;
+  return html.replace(NONCE_TARGETS, (tag) => `${tag} nonce="${nonce}"`);
+}
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Suspense, createElement, use } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { SSR_MARKERS } from "./constants";
+import { outputFile, parseSitemap, prerender } from "./prerender";
+
+const template = `<html><head>${SSR_MARKERS.HEAD}</head><body>${SSR_MARKERS.BODY}</body></html>`;
+
+const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+
+describe("prerender", () => {
+  let outDir: string;
+
+  beforeEach(async () => {
+    outDir = await mkdtemp(join(tmpdir(), "prerender-"));
+  });
+
+  afterEach(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it("should write every page and report failures without aborting", async () => {
+    const cleanup = vi.fn();
+    const sitemap = join(outDir, "sitemap.xml");
+    await writeFile(
+      sitemap,
+      "<urlset><url><loc>https://example.com/blog/</loc></url></urlset>",
+    );
+
+    const { pages, failures } = await prerender({
+      setup: (url, props) => ({ url, props }),
+      render: ({ url, props }) => {
+        if (props.fail) throw new Error("boom");
+        return {
+          head: `<title>${new URL(url, "http://x").pathname}</title>`,
+          body: "<p>Hi</p>",
+          bodyAttrs: 'class="page"',
+        };
+      },
+      cleanup,
+      routes: ["/", { url: "/broken", props: { fail: true } }],
+      sitemap,
+      template,
+      outDir,
+      logger,
+    });
+
+    expect(pages.map((page) => page.url)).toEqual(
+      expect.arrayContaining(["/", "https://example.com/blog/"]),
+    );
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toMatchObject({
+      url: "/broken",
+      error: { code: "RENDER_ERROR" },
+    });
+    expect(cleanup).toHaveBeenCalledTimes(3);
+
+    expect(await readFile(join(outDir, "index.html"), "utf8")).toBe(
+      '<html><head><title>/</title></head><body class="page"><p>Hi</p></body></html>',
+    );
+    expect(
+      await readFile(join(outDir, "blog", "index.html"), "utf8"),
+    ).toContain("<title>/blog/</title>");
+  });
+
+  it("should wait for every Suspense boundary with streaming callbacks", async () => {
+    const Delayed = () =>
+      createElement(
+        "p",
+        null,
+        use(new Promise<string>((resolve) => setTimeout(resolve, 10, "Ready"))),
+      );
+
+    const { failures } = await prerender({
+      setup: () => ({
+        app: createElement(
+          Suspense,
+          { fallback: createElement("p", null, "Loading") },
+          createElement(Delayed),
+        ),
+      }),
+      streamCallbacks: {
+        head: () => "<title>Streamed</title>",
+        state: () => ({ ready: true }),
+      },
+      routes: ["/pricing.html"],
+      template,
+      outDir,
+      logger,
+    });
+
+    const html = await readFile(join(outDir, "pricing.html"), "utf8");
+
+    expect(failures).toEqual([]);
+    expect(html).toContain("<title>Streamed</title>");
+    expect(html).toContain("<p>Ready</p>");
+    expect(html).not.toContain("Loading");
+    expect(html).toMatch(
+      /id="__SSR_STATE__">\{"ready":true\}<\/script><\/body><\/html>$/,
+    );
+  });
+});
+
+describe("outputFile", () => {
+  it("should map URLs to index files inside the output directory", () => {
+    expect(outputFile("/out", "/")).toBe("/out/index.html");
+    expect(outputFile("/out", "/about?ref=1")).toBe("/out/about/index.html");
+    expect(outputFile("/out", "/docs/a.html")).toBe("/out/docs/a.html");
+    expect(outputFile("/out", "/%2e%2e/secret")).toBe("/out/secret/index.html");
+  });
+});
+
+describe("parseSitemap", () => {
+  it("should decode the loc entries", () => {
+    expect(
+      parseSitemap(
+        "<urlset><url><loc> https://a.test/?x=1&amp;y=2 </loc></url><url><loc>https://a.test/b</loc></url></urlset>",
+      ),
+    ).toEqual(["https://a.test/?x=1&y=2", "https://a.test/b"]);
+  });
+});
@@ -0,0 +1,289 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, extname, join, relative, resolve } from "node:path";
+import { Writable } from "node:stream";
+
+import {
+  createAssetResolver,
+  type AssetResolver,
+  type AssetsOptions,
+} from "@/assets";
+import { mapWithConcurrency } from "@/concurrency";
+import { SSR_MARKERS } from "@/constants";
+import { SSRError } from "@/errors";
+import { defaultLogger } from "@/logger";
+import { renderToOutput, withNonce } from "@/render";
+import type { ResponseMeta } from "@/response";
+import { streamDocument } from "@/stream";
+import { splitTemplate } from "@/templates";
+import { RenderTimer } from "@/timing";
+import type {
+  Logger,
+  RenderOutput,
+  SSREntryModule,
+  ValidationOptions,
+} from "@/types";
+import { validateRenderRequest } from "@/validation";
+
+/** A URL to pre-render, with the props passed to `setup`. */
+export type PrerenderRoute = {
+  url: string;
+  props?: Record<string, any>;
+};
+
+/**
+ * Options for {@link prerender}: the entry module callbacks plus what to render and where.
+ */
+export type PrerenderOptions<
+  TContext extends Record<string, any> = Record<string, any>,
+> = SSREntryModule<TContext> & {
+  /** URLs to render, as strings or `{ url, props }`. */
+  routes?: Array<string | PrerenderRoute>;
+  /** Path to a `sitemap.xml` whose `<loc>` URLs are rendered as well. */
+  sitemap?: string;
+  /** HTML document containing `SSR_MARKERS.HEAD` and `SSR_MARKERS.BODY`. */
+  template: string;
+  /** Directory the `.html` files are written to. */
+  outDir: string;
+  /**
+   * Maximum number of pages rendered at once.
+   * @default 4
+   */
+  concurrency?: number;
+  /** Optional deadline per page in milliseconds. */
+  timeout?: number;
+  /** Optional Vite manifests, as for the server handlers. */
+  assets?: AssetsOptions;
+  /** Optional URL and props validation, as for the server handlers. */
+  validate?: ValidationOptions;
+  /** Optional logger. Defaults to JSON lines on the console. */
+  logger?: Logger;
+};
+
+/** A page written by {@link prerender}. */
+export type PrerenderedPage = {
+  url: string;
+  /** Absolute path of the written file. */
+  file: string;
+  /** Render duration in milliseconds. */
+  duration: number;
+  /** Status, redirect, headers and cookies requested by the render, e.g. for the static host. */
+  response?: ResponseMeta;
+};
+
+/** A page {@link prerender} failed to render. */
+export type PrerenderFailure = {
+  url: string;
+  error: SSRError;
+};
+
+/** Outcome of a {@link prerender} run. */
+export type PrerenderResult = {
+  pages: PrerenderedPage[];
+  failures: PrerenderFailure[];
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Extracts the `<loc>` URLs of a sitemap.
+ */
+export function parseSitemap(xml: string): string[] {
+  return Array.from(xml.matchAll(/<loc>\s*([^<]*?)\s*<\/loc>/g), ([, loc]) =>
+    loc!.replace(/&(amp|lt|gt|quot|apos);/g, (_, name) => XML_ENTITIES[name]!),
+  );
+}
+
+/**
+ * Maps a URL to the file it is written to: `/` becomes `index.html`, `/about`
+ * becomes `about/index.html` and paths ending in `.html` are kept.
+ *
+ * @throws {Error} When the path would resolve outside of `outDir`
+ */
+export function outputFile(outDir: string, url: string): string {
+  const pathname = decodeURIComponent(
+    new URL(url, "http://localhost").pathname,
+  );
+  const path =
+    extname(pathname) === ".html" ? pathname : join(pathname, "index.html");
+
+  const root = resolve(outDir);
+  const file = resolve(root, `.${path}`);
+  if (relative(root, file).startsWith("..")) {
+    throw new Error(`Cannot write ${url} outside of ${outDir}`);
+  }
+  return file;
+}
+
+/**
+ * Fills the template markers with the output of the JSON render path.
+ */
+function fillTemplate(template: string, output: RenderOutput): string {
+  const state = typeof output.state === "string" ? output.state : "";
+  const html = template
+    .replace(SSR_MARKERS.HEAD, () => output.head ?? "")
+    .replace(SSR_MARKERS.BODY, () => output.body + state);
+
+  return output.bodyAttrs
+    ? html.replace(/<body\b/i, (tag) => `${tag} ${output.bodyAttrs}`)
+    : html;
+}
+
+/**
+ * A document redirecting to `location`, written in place of pages that redirect.
+ */
+function redirectPage(location: string): string {
+  const url = location.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+  return `<!DOCTYPE html><meta charset="utf-8"><meta http-equiv="refresh" content="0; url=${url}"><link rel="canonical" href="${url}">`;
+}
+
+/**
+ * Renders a page with the streaming callbacks, waiting for every Suspense boundary.
+ * Any error, including one inside a boundary, fails the page instead of leaving a
+ * client-rendered fallback in the static file.
+ */
+async function renderStreamPage<TContext extends Record<string, any>>(
+  options: PrerenderOptions<TContext>,
+  url: string,
+  props: Record<string, any>,
+  run: { assets?: AssetResolver; timer: RenderTimer; log: Logger },
+): Promise<{ html: string; response?: ResponseMeta }> {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+
+  const document = await streamDocument(
+    { ...options, streamCallbacks: options.streamCallbacks! },
+    url,
+    props,
+    {
+      ...run,
+      template: splitTemplate(options.template),
+      mode: "allReady",
+      timeout: options.timeout,
+      target: { open: () => output, redirect() {} },
+    },
+  );
+  await document.done;
+  if (document.errors.length) throw document.errors[0];
+
+  return {
+    html: Buffer.concat(chunks).toString(),
+    response: document.response.toJSON(),
+  };
+}
+
+/**
+ * Renders a list of URLs to static `.html` files, reusing the `setup`/`render`
+ * callbacks (or `streamCallbacks`) of the SSR server.
+ *
+ * URLs come from `routes` and the `<loc>` entries of `sitemap`. Each page is rendered
+ * into `template` and written below `outDir`; pages render `concurrency` at a time, and
+ * a failing page is logged and reported in `failures` without aborting the run.
+ * Static files cannot carry a status or headers, so what a page sets on its
+ * {@link ResponseControl} is reported in `pages`; redirects are written as a
+ * `<meta http-equiv="refresh">` document.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - Entry callbacks, URLs, template and output directory
+ * @returns The written pages and the failures
+ *
+ * @example
+ * ```typescript
+ * import { prerender } from 'universal-renderer';
+ * import * as entry from './dist/server/ssr.js';
+ *
+ * const { failures } = await prerender({
+ *   ...entry,
+ *   routes: ['/', '/pricing', { url: '/about', props: { team: true } }],
+ *   template: await readFile('index.html', 'utf8'),
+ *   outDir: 'dist/static',
+ * });
+ * ```
+ */
+export async function prerender<TContext extends Record<string, any>>(
+  options: PrerenderOptions<TContext>,
+): Promise<PrerenderResult> {
+  if (!options.render && !options.streamCallbacks) {
+    throw new Error("render callback or streamCallbacks are required");
+  }
+  if (!options.template.includes(SSR_MARKERS.BODY)) {
+    throw new Error(`template must contain ${SSR_MARKERS.BODY}`);
+  }
+
+  const logger = options.logger ?? defaultLogger;
+  const assets = options.assets && createAssetResolver(options.assets);
+
+  const routes: PrerenderRoute[] = (options.routes ?? []).map((route) =>
+    typeof route === "string" ? { url: route } : route,
+  );
+  if (options.sitemap) {
+    const xml = await readFile(options.sitemap, "utf8");
+    for (const url of parseSitemap(xml)) routes.push({ url });
+  }
+
+  const result: PrerenderResult = { pages: [], failures: [] };
+
+  await mapWithConcurrency(routes, options.concurrency ?? 4, async (route) => {
+    const timer = new RenderTimer("prerender");
+
+    try {
+      const { url, props } = await validateRenderRequest(
+        route,
+        options.validate,
+      );
+      const file = outputFile(options.outDir, url);
+
+      let html: string;
+      let response: ResponseMeta | undefined;
+      if (options.render) {
+        const output = await renderToOutput(
+          { ...options, render: options.render },
+          url,
+          props,
+          { timeout: options.timeout, timer, assets },
+        );
+        html = fillTemplate(options.template, withNonce(output));
+        response = output.response;
+      } else {
+        ({ html, response } = await renderStreamPage(options, url, props, {
+          assets,
+          timer,
+          log: logger,
+        }));
+      }
+      if (response?.location) html = redirectPage(response.location);
+
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(file, html);
+
+      const duration = timer.elapsed();
+      result.pages.push({ url: route.url, file, duration, response });
+      logger.info({ url: route.url, file, duration }, "Page prerendered");
+    } catch (error) {
+      const ssrError = SSRError.from(error, timer.phase);
+      result.failures.push({ url: route.url, error: ssrError });
+      logger.error(
+        {
+          url: route.url,
+          code: ssrError.code,
+          phase: ssrError.phase,
+          duration: timer.elapsed(),
+          err: ssrError.cause ?? ssrError,
+        },
+        "Prerender failed",
+      );
+    }
+  });
+
+  return result;
+}
@@ -1,3 +1,7 @@
 declare module "react-dom/server.node" {
   export * from "react-dom/server";
 }
+
+declare module "react-dom/server.edge" {
+  export * from "react-dom/server";
+}
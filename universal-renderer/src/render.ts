@@ -0,0 +1,126 @@
+import { renderedModules, type AssetResolver } from "@/assets";
+import { addNonce } from "@/nonce";
+import { ResponseControl } from "@/response";
+import { stateScript } from "@/state";
+import { withTimeout } from "@/timeout";
+import type { RenderTimer } from "@/timing";
+import type { RenderOutput, SSRHandlerOptions } from "@/types";
+
+/**
+ * Output of {@link renderToOutput}, cached as is. The markup the library injects into
+ * the head is kept apart until the request's nonce is applied by {@link withNonce}.
+ */
+export type RenderedOutput = RenderOutput & {
+  /** Asset links and the entry script, without a nonce. */
+  assetsHead?: string;
+};
+
+/**
+ * Applies the request's nonce to the markup the library injected, the asset links and
+ * the hydration state, and prepends the asset links to the head. The head rendered by
+ * the app is left as it is; apps nonce their own elements with `response.nonce`.
+ *
+ * Nonces change with every request, so this runs after the output was read from or
+ * written to the cache.
+ */
+export function withNonce(
+  output: RenderedOutput,
+  nonce?: string,
+): RenderOutput {
+  const { assetsHead, ...applied } = output;
+  if (assetsHead)
+    applied.head = addNonce(assetsHead, nonce) + (output.head ?? "");
+  if (typeof output.state === "string") {
+    applied.state = addNonce(output.state, nonce);
+  }
+  return applied;
+}
+
+/**
+ * Runs the setup, render and cleanup callbacks for a single URL.
+ *
+ * Cleanup is always called once setup has produced a context, even if rendering fails
+ * or the deadline is exceeded. When setup itself outlives the deadline, cleanup runs
+ * as soon as it resolves.
+ *
+ * Hydration state returned by render is serialized into its script element, so the
+ * output can be cached and sent as JSON. With an asset resolver, links for the client
+ * build and the entry script are returned as `assetsHead`, to be prepended to the head
+ * by {@link withNonce}. Whatever was set on the {@link ResponseControl} passed to setup
+ * is returned as `response`.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - The setup/render/cleanup callbacks
+ * @param url - The URL being rendered
+ * @param props - Additional props passed from the client
+ * @param run - Optional deadline in milliseconds, timer recording phase durations, asset resolver,
+ *   CSP nonce and the {@link ResponseControl} passed to setup
+ * @returns The rendered output, before the nonce is applied
+ * @throws {RenderTimeoutError} When the deadline is exceeded
+ */
+export async function renderToOutput<TContext extends Record<string, any>>(
+  options: SSRHandlerOptions<TContext>,
+  url: string,
+  props: Record<string, any>,
+  run: {
+    timeout?: number;
+    timer?: RenderTimer;
+    assets?: AssetResolver;
+    nonce?: string;
+    response?: ResponseControl;
+  } = {},
+): Promise<RenderedOutput> {
+  let context: TContext | undefined;
+  let timedOut = false;
+  let cleanedUp = false;
+
+  const cleanup = () => {
+    if (cleanedUp || !context || !options.cleanup) return;
+    cleanedUp = true;
+    const end = run.timer?.start("cleanup");
+    options.cleanup(context);
+    end?.();
+  };
+
+  const response = run.response ?? new ResponseControl();
+  if (!run.response) response.nonce = run.nonce;
+
+  const pipeline = (async () => {
+    // Set up the rendering context with the provided URL and props
+    const endSetup = run.timer?.start("setup");
+    context = await options.setup(url, props, response);
+    endSetup?.();
+
+    // The caller has given up; release the context instead of rendering
+    if (timedOut) {
+      cleanup();
+      return undefined as never;
+    }
+
+    // Nothing to render when setup already decided to redirect
+    if (response.redirected) return { body: "", response: response.toJSON() };
+
+    // Render the application and get the HTML output
+    const endRender = run.timer?.start("render");
+    const output = await options.render(context);
+    const rendered: RenderedOutput = { ...output };
+    if (output.state !== undefined) rendered.state = stateScript(output.state);
+    if (run.assets) {
+      rendered.assetsHead =
+        run.assets.links(renderedModules(context)) + run.assets.scripts();
+    }
+    const meta = response.toJSON();
+    if (meta) rendered.response = { ...output.response, ...meta };
+    endRender?.();
+    return rendered;
+  })();
+
+  try {
+    return await withTimeout(pipeline, run.timeout, () => {
+      timedOut = true;
+    });
+  } finally {
+    // Always clean up resources, even if rendering failed
+    cleanup();
+  }
+}
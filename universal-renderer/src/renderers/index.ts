@@ -0,0 +1,4 @@
+export { reactRenderer } from "./react";
+export { reactWebRenderer } from "./react-web";
+export { createVueRenderer } from "./vue";
+export type { VueServerRenderer } from "./vue";
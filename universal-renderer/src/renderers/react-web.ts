@@ -0,0 +1,24 @@
+import type { ReactNode } from "react";
+import { renderToReadableStream } from "react-dom/server.edge";
+
+import type { WebStreamRenderer } from "@/types";
+
+/**
+ * Streams React nodes with `renderToReadableStream`. This is the default renderer of
+ * `createFetchHandler`, and needs no Node APIs.
+ *
+ * The shell is everything outside Suspense boundaries; boundaries that are still
+ * pending when rendering is aborted fall back to client rendering.
+ */
+export const reactWebRenderer: WebStreamRenderer = {
+  async renderToReadableStream(node, options) {
+    const stream = await renderToReadableStream(node as ReactNode, {
+      bootstrapModules: options.bootstrapModules,
+      nonce: options.nonce,
+      signal: options.signal,
+      onError: options.onError,
+    });
+
+    return { stream, allReady: stream.allReady };
+  },
+};
@@ -0,0 +1,30 @@
+import type { ReactNode } from "react";
+import { renderToPipeableStream } from "react-dom/server.node";
+
+import type { StreamRenderer } from "@/types";
+
+/**
+ * Streams React nodes with `renderToPipeableStream`. This is the default renderer.
+ *
+ * The shell is everything outside Suspense boundaries; boundaries that are still
+ * pending when rendering is aborted fall back to client rendering.
+ */
+export const reactRenderer: StreamRenderer = {
+  renderToStream(node, options) {
+    const { pipe, abort } = renderToPipeableStream(node as ReactNode, {
+      bootstrapModules: options.bootstrapModules,
+      nonce: options.nonce,
+      onShellReady: options.onShellReady,
+      onShellError: options.onShellError,
+      onAllReady: options.onAllReady,
+      onError: options.onError,
+    });
+
+    return {
+      pipe: (destination) => {
+        pipe(destination);
+      },
+      abort,
+    };
+  },
+};
@@ -0,0 +1,108 @@
+// @vitest-environment node
+import express from "express";
+import { Readable } from "node:stream";
+import { describe, expect, it, vi } from "vitest";
+
+import { SSR_MARKERS } from "@/constants";
+import { createStreamHandler } from "@/handlers/stream";
+import { listen } from "@/test/http";
+import { createVueRenderer } from "./vue";
+
+const template = `<html><head>${SSR_MARKERS.HEAD}</head><body>${SSR_MARKERS.BODY}</body></html>`;
+
+const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+
+/** Stands in for `vue/server-renderer`, yielding the chunks of `app`. */
+const renderToNodeStream = (
+  app: { chunks: string[]; fail?: boolean },
+  context?: Record<string, any>,
+) =>
+  Readable.from(
+    (async function* () {
+      context?.modules?.add("src/App.vue");
+      for (const chunk of app.chunks) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        yield Buffer.from(chunk);
+      }
+      if (app.fail) throw new Error("async setup failed");
+    })(),
+  );
+
+const createApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.post(
+    "/stream",
+    createStreamHandler({
+      setup: (url, props) => ({ app: props, modules: new Set<string>() }),
+      streamCallbacks: { head: () => "<title>Vue</title>" },
+      renderer: createVueRenderer({ renderToNodeStream }),
+      assets: {
+        manifest: { "src/main.ts": { file: "assets/main.js" } },
+        entry: "src/main.ts",
+      },
+      logger,
+    }),
+  );
+  return app;
+};
+
+describe("createVueRenderer", () => {
+  it("should stream the app and append the bootstrap modules", async () => {
+    const server = await listen(createApp());
+
+    try {
+      const res = await server.post("/stream", {
+        url: "/",
+        template,
+        props: { chunks: ["<div>", "Hello", "</div>"] },
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toBe(
+        "<html><head><title>Vue</title></head><body><div>Hello</div>" +
+          '<script type="module" src="/assets/main.js" async></script></body></html>',
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should report errors before the first chunk as shell errors", async () => {
+    const server = await listen(createApp());
+
+    try {
+      const res = await server.post("/stream", {
+        url: "/",
+        template,
+        props: { chunks: [], fail: true },
+      });
+
+      expect(res.status).toBe(500);
+      expect(await res.json()).toMatchObject({ code: "SHELL_ERROR" });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should emit the error marker for errors after the first chunk", async () => {
+    const server = await listen(createApp());
+
+    try {
+      const res = await server.post("/stream", {
+        url: "/",
+        template,
+        props: { chunks: ["<div>"], fail: true },
+      });
+      const html = await res.text();
+
+      expect(res.status).toBe(200);
+      expect(html).toContain("<div><script");
+      expect(html).toMatch(
+        /<script type="application\/json" data-ssr-error>.*STREAM_ERROR.*<\/script><\/body><\/html>$/,
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import type { Readable } from "node:stream";
+
+import { addNonce } from "@/nonce";
+import type { StreamRenderer } from "@/types";
+
+/**
+ * The part of `vue/server-renderer` used by {@link createVueRenderer}.
+ */
+export type VueServerRenderer = {
+  renderToNodeStream(input: any, context?: Record<string, any>): Readable;
+};
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+/**
+ * Creates a renderer streaming Vue apps with `renderToNodeStream`.
+ *
+ * Vue has no shell: the shell is ready with the first chunk, and errors raised before
+ * it are reported as shell errors. The render context is passed as Vue's `ssrContext`,
+ * so modules recorded by `@vitejs/plugin-vue` end up in `context.modules`. Bootstrap
+ * modules are appended as module scripts once rendering completes.
+ *
+ * @param server - `vue/server-renderer`, passed in so Vue stays an optional dependency
+ * @returns A renderer for the `renderer` option
+ *
+ * @example
+ * ```typescript
+ * import { renderToNodeStream } from 'vue/server-renderer';
+ * import { createSSRApp } from 'vue';
+ *
+ * createServer({
+ *   setup: (url) => ({ app: createSSRApp(App, { url }) }),
+ *   streamCallbacks: {},
+ *   renderer: createVueRenderer({ renderToNodeStream }),
+ * });
+ * ```
+ */
+export function createVueRenderer(server: VueServerRenderer): StreamRenderer {
+  return {
+    renderToStream(app, options) {
+      const source = server.renderToNodeStream(app, options.context);
+      const buffered: Buffer[] = [];
+      let destination: NodeJS.WritableStream | undefined;
+      let shellReady = false;
+      let complete = false;
+      let closed = false;
+
+      const shell = () => {
+        if (shellReady) return;
+        shellReady = true;
+        options.onShellReady();
+      };
+
+      // Appends the bootstrap scripts and ends the destination once
+      const close = () => {
+        if (closed || !destination) return;
+        closed = true;
+        for (const src of options.bootstrapModules ?? []) {
+          destination.write(
+            addNonce(
+              `<script type="module" src="${escapeAttribute(src)}" async></script>`,
+              options.nonce,
+            ),
+          );
+        }
+        destination.end();
+      };
+
+      const write = (chunk: Buffer) => {
+        if (!destination) return buffered.push(chunk);
+        if (!destination.write(chunk)) {
+          source.pause();
+          destination.once("drain", () => source.resume());
+        }
+      };
+
+      source.on("data", (chunk) => {
+        write(Buffer.from(chunk));
+        shell();
+      });
+
+      source.on("end", () => {
+        complete = true;
+        shell();
+        options.onAllReady?.();
+        close();
+      });
+
+      source.on("error", (error) => {
+        if (!shellReady) return options.onShellError(error);
+        options.onError(error);
+        complete = true;
+        options.onAllReady?.();
+        close();
+      });
+
+      return {
+        pipe(target) {
+          destination = target;
+          for (const chunk of buffered.splice(0)) target.write(chunk);
+          if (complete) close();
+        },
+        abort(reason) {
+          if (complete) return;
+          complete = true;
+          source.destroy();
+
+          if (!shellReady) return options.onShellError(reason);
+          options.onError(reason);
+          options.onAllReady?.();
+          close();
+        },
+      };
+    },
+  };
+}
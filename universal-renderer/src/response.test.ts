@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+
+import { ResponseControl, serializeCookie } from "./response";
+
+describe("ResponseControl", () => {
+  it("should report nothing until something is set", () => {
+    expect(new ResponseControl().toJSON()).toBeUndefined();
+  });
+
+  it("should collect status, headers and cookies", () => {
+    const response = new ResponseControl()
+      .setStatus(404)
+      .setHeader("Cache-Control", "no-store")
+      .setCookie("seen", "a b", {
+        path: "/",
+        httpOnly: true,
+        sameSite: "lax",
+        expires: new Date("2030-01-01T00:00:00Z"),
+      });
+
+    expect(response.toJSON()).toEqual({
+      status: 404,
+      headers: { "cache-control": "no-store" },
+      cookies: [
+        {
+          name: "seen",
+          value: "a b",
+          path: "/",
+          httpOnly: true,
+          sameSite: "lax",
+          expires: "2030-01-01T00:00:00.000Z",
+        },
+      ],
+    });
+    expect(response.headerEntries()).toEqual([
+      ["cache-control", "no-store"],
+      ["X-SSR-Response-Headers", "cache-control"],
+      [
+        "set-cookie",
+        "seen=a%20b; Path=/; Expires=Tue, 01 Jan 2030 00:00:00 GMT; HttpOnly; SameSite=Lax",
+      ],
+    ]);
+  });
+
+  it("should redirect with 302 unless told otherwise", () => {
+    expect(new ResponseControl().redirect("/login").toJSON()).toEqual({
+      status: 302,
+      location: "/login",
+    });
+    expect(new ResponseControl().redirect("/new", 301).status).toBe(301);
+  });
+
+  it("should reject invalid values and reserved headers", () => {
+    const response = new ResponseControl();
+
+    expect(() => response.setStatus(99)).toThrow(TypeError);
+    expect(() => response.redirect("/", 200)).toThrow(TypeError);
+    expect(() => response.redirect("/\r\nX-Injected: 1")).toThrow(TypeError);
+    expect(() => response.setHeader("Content-Length", "1")).toThrow(TypeError);
+    expect(() => response.setHeader("Bad Name", "1")).toThrow(TypeError);
+    expect(() => response.setCookie("a;b", "1")).toThrow(TypeError);
+    expect(response.toJSON()).toBeUndefined();
+  });
+
+  it("should reject cookie attributes that would inject other attributes", () => {
+    const response = new ResponseControl();
+
+    expect(() =>
+      response.setCookie("id", "1", { path: "/; Domain=evil.test" }),
+    ).toThrow(TypeError);
+    expect(() =>
+      response.setCookie("id", "1", { domain: "example.com\tx" }),
+    ).toThrow(TypeError);
+    for (const maxAge of [1.5, NaN, Infinity]) {
+      expect(() => response.setCookie("id", "1", { maxAge })).toThrow(
+        TypeError,
+      );
+    }
+    expect(response.toJSON()).toBeUndefined();
+
+    response.setCookie("id", "1", { path: "/a b", maxAge: -1 });
+    expect(response.headerEntries()).toContainEqual([
+      "set-cookie",
+      "id=1; Path=/a b; Max-Age=-1",
+    ]);
+  });
+});
+
+describe("serializeCookie", () => {
+  it("should format Max-Age, Domain and Secure", () => {
+    expect(
+      serializeCookie({
+        name: "id",
+        value: "1",
+        domain: "example.com",
+        maxAge: 60,
+        secure: true,
+        sameSite: "none",
+      }),
+    ).toBe("id=1; Domain=example.com; Max-Age=60; Secure; SameSite=None");
+  });
+});
@@ -0,0 +1,276 @@
+/** Response header listing the headers set through {@link ResponseControl} on `/stream`. */
+export const RESPONSE_HEADERS_HEADER = "X-SSR-Response-Headers";
+
+/** Headers the handlers manage themselves. */
+const RESERVED_HEADERS = new Set([
+  "connection",
+  "content-length",
+  "content-type",
+  "keep-alive",
+  "location",
+  "set-cookie",
+  "transfer-encoding",
+]);
+
+/**
+ * Options of a cookie set with {@link ResponseControl.setCookie}.
+ */
+export type CookieOptions = {
+  path?: string;
+  domain?: string;
+  /** Lifetime in seconds. */
+  maxAge?: number;
+  expires?: Date;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "strict" | "lax" | "none";
+};
+
+/** A cookie as sent in the `response` field of JSON responses. */
+export type ResponseCookie = Omit<CookieOptions, "expires"> & {
+  name: string;
+  value: string;
+  /** Expiry as an ISO 8601 string. */
+  expires?: string;
+};
+
+/**
+ * Status, redirect, headers and cookies requested by a render. JSON responses carry
+ * it as `response` so that the client can apply it.
+ */
+export type ResponseMeta = {
+  status?: number;
+  location?: string;
+  headers?: Record<string, string>;
+  cookies?: ResponseCookie[];
+};
+
+/** A call made on a {@link ResponseControl} recorded in another thread. */
+export type RecordedCall =
+  | ["setStatus", number]
+  | ["redirect", string, number?]
+  | ["setHeader", string, string]
+  | ["setCookie", string, string, CookieOptions?];
+
+/**
+ * What a render in a worker thread did with its response control, replayed on the
+ * request's {@link ResponseControl} with {@link ResponseControl.replay}.
+ */
+export type RecordedResponse = {
+  calls: RecordedCall[];
+  /** Whether the render read the nonce. */
+  nonceRead: boolean;
+};
+
+const assertToken = (value: string, what: string) => {
+  if (!/^[!#$%&'*+\-.^_`|~\w]+$/.test(value)) {
+    throw new TypeError(`Invalid ${what}: ${value}`);
+  }
+};
+
+const assertValue = (value: string, what: string) => {
+  if (/[\r\n\0]/.test(value)) throw new TypeError(`Invalid ${what}: ${value}`);
+};
+
+// Cookie attributes are written verbatim, so `;` would start another attribute
+const assertAttribute = (value: string, what: string) => {
+  if (/[\x00-\x1f\x7f;]/.test(value)) {
+    throw new TypeError(`Invalid ${what}: ${value}`);
+  }
+};
+
+/**
+ * Formats a cookie as a `Set-Cookie` header value.
+ */
+export function serializeCookie(cookie: ResponseCookie): string {
+  const parts = [`${cookie.name}=${encodeURIComponent(cookie.value)}`];
+  if (cookie.path) parts.push(`Path=${cookie.path}`);
+  if (cookie.domain) parts.push(`Domain=${cookie.domain}`);
+  if (cookie.maxAge !== undefined) parts.push(`Max-Age=${cookie.maxAge}`);
+  if (cookie.expires) {
+    parts.push(`Expires=${new Date(cookie.expires).toUTCString()}`);
+  }
+  if (cookie.httpOnly) parts.push("HttpOnly");
+  if (cookie.secure) parts.push("Secure");
+  if (cookie.sameSite) {
+    parts.push(
+      `SameSite=${cookie.sameSite[0]!.toUpperCase()}${cookie.sameSite.slice(1)}`,
+    );
+  }
+  return parts.join("; ");
+}
+
+/**
+ * Lets `setup`, `render` and components decide the status code, redirect, headers and
+ * cookies of the page being rendered.
+ *
+ * Each render gets its own instance as the third argument of `setup`; keep it on the
+ * context to reach it later. Streaming applies it when the shell is ready, so anything
+ * set while rendering the shell is still honored.
+ *
+ * @example
+ * ```typescript
+ * setup: (url, props, response) => {
+ *   if (!props.user) response.redirect('/login');
+ *   return { url, props, response };
+ * },
+ * render: ({ response, props }) => {
+ *   if (!props.post) response.setStatus(404);
+ *   return { body: renderToString(<Post post={props.post} />) };
+ * },
+ * ```
+ */
+export class ResponseControl {
+  status: number | undefined;
+  location: string | undefined;
+  readonly headers: Record<string, string> = {};
+  readonly cookies: ResponseCookie[] = [];
+  private requestNonce: string | undefined;
+  private nonceRead = false;
+
+  /**
+   * Content-Security-Policy nonce sent with the request, set by the handlers. Use it for
+   * inline scripts and styles the app renders itself; elements the library injects get
+   * it automatically.
+   */
+  get nonce(): string | undefined {
+    this.nonceRead = true;
+    return this.requestNonce;
+  }
+
+  set nonce(nonce: string | undefined) {
+    this.requestNonce = nonce;
+  }
+
+  /**
+   * The nonce to hand to a render in a worker thread. Unlike reading
+   * {@link ResponseControl.nonce}, this does not mark the render as personalized;
+   * {@link ResponseControl.replay} does when the worker read it.
+   */
+  get forwardedNonce(): string | undefined {
+    return this.requestNonce;
+  }
+
+  /**
+   * Whether the render depends on this request beyond its URL and props: it set a
+   * status, redirect, header or cookie, or read the nonce. Such output is not cached.
+   */
+  get personalized(): boolean {
+    return this.nonceRead || this.toJSON() !== undefined;
+  }
+
+  /** Whether a redirect was requested. */
+  get redirected(): boolean {
+    return this.location !== undefined;
+  }
+
+  /** Sets the status code of the page, e.g. `404`. */
+  setStatus(status: number): this {
+    if (!Number.isInteger(status) || status < 200 || status > 599) {
+      throw new TypeError(`Invalid status code: ${status}`);
+    }
+    this.status = status;
+    return this;
+  }
+
+  /** Redirects instead of rendering the page. */
+  redirect(location: string, status = 302): this {
+    if (!Number.isInteger(status) || status < 300 || status > 399) {
+      throw new TypeError(`Invalid redirect status code: ${status}`);
+    }
+    assertValue(location, "redirect location");
+    this.location = location;
+    this.status = status;
+    return this;
+  }
+
+  /** Sets a response header. Framing headers, `Location` and `Set-Cookie` are reserved. */
+  setHeader(name: string, value: string): this {
+    assertToken(name, "header name");
+    assertValue(value, "header value");
+    if (RESERVED_HEADERS.has(name.toLowerCase())) {
+      throw new TypeError(`Header ${name} cannot be set through the response`);
+    }
+    this.headers[name.toLowerCase()] = value;
+    return this;
+  }
+
+  /** Sets a cookie. */
+  setCookie(name: string, value: string, options: CookieOptions = {}): this {
+    assertToken(name, "cookie name");
+    if (options.path !== undefined)
+      assertAttribute(options.path, "cookie path");
+    if (options.domain !== undefined) {
+      assertAttribute(options.domain, "cookie domain");
+    }
+    if (options.maxAge !== undefined && !Number.isInteger(options.maxAge)) {
+      throw new TypeError(`Invalid cookie maxAge: ${options.maxAge}`);
+    }
+
+    const { expires, ...rest } = options;
+    this.cookies.push({
+      name,
+      value,
+      ...rest,
+      ...(expires && { expires: expires.toISOString() }),
+    });
+    return this;
+  }
+
+  /**
+   * Applies what a render in a worker thread recorded, validating each call as if it
+   * had been made here.
+   *
+   * @throws {TypeError} When a recorded call is invalid
+   */
+  replay(recorded: RecordedResponse): this {
+    if (recorded.nonceRead) this.nonceRead = true;
+
+    for (const call of recorded.calls) {
+      switch (call[0]) {
+        case "setStatus":
+          this.setStatus(call[1]);
+          break;
+        case "redirect":
+          this.redirect(call[1], call[2]);
+          break;
+        case "setHeader":
+          this.setHeader(call[1], call[2]);
+          break;
+        case "setCookie":
+          this.setCookie(call[1], call[2], call[3]);
+          break;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Returns the header entries to send, including `Location` and `Set-Cookie`.
+   * The names of custom headers are listed in `X-SSR-Response-Headers`.
+   */
+  headerEntries(): Array<[string, string]> {
+    const entries = Object.entries(this.headers);
+    if (entries.length) {
+      entries.push([
+        RESPONSE_HEADERS_HEADER,
+        Object.keys(this.headers).join(", "),
+      ]);
+    }
+    if (this.location !== undefined) entries.push(["location", this.location]);
+    for (const cookie of this.cookies) {
+      entries.push(["set-cookie", serializeCookie(cookie)]);
+    }
+    return entries;
+  }
+
+  /** Returns what was requested, or `undefined` when nothing was. */
+  toJSON(): ResponseMeta | undefined {
+    const meta: ResponseMeta = {};
+    if (this.status !== undefined) meta.status = this.status;
+    if (this.location !== undefined) meta.location = this.location;
+    if (Object.keys(this.headers).length) meta.headers = { ...this.headers };
+    if (this.cookies.length) meta.cookies = [...this.cookies];
+    return Object.keys(meta).length ? meta : undefined;
+  }
+}
@@ -1,5 +1,10 @@
-import { describe, expect, it } from "vitest";
-import { createServer } from "./server";
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+import { gzipSync } from "node:zlib";
+
+import { signRequest } from "@/auth";
+import { listen } from "@/test/http";
+import { createServer, startServer } from "./server";
 
 describe("createServer", () => {
   it("should create an Express application", async () => {
@@ -45,3 +50,376 @@ describe("createServer", () => {
     expect(typeof server.listen).toBe("function");
   });
 });
+
+describe("createServer metrics", () => {
+  it("should expose render timings at /metrics and in Server-Timing", async () => {
+    const server = await listen(
+      await createServer({
+        setup: async (url) => ({ url }),
+        render: async () => ({ body: "<div>Test</div>" }),
+      }),
+    );
+
+    try {
+      const render = await server.post("/", { url: "/" });
+      expect(render.headers.get("server-timing")).toMatch(
+        /^setup;dur=[\d.]+, render;dur=[\d.]+$/,
+      );
+
+      const scrape = await fetch(`${server.url}/metrics`);
+      const body = await scrape.text();
+
+      expect(scrape.headers.get("content-type")).toContain("text/plain");
+      expect(body).toContain(
+        'ssr_phase_duration_seconds_count{handler="ssr",phase="render"} 1',
+      );
+      expect(body).toContain('ssr_requests_total{route="/",status="200"} 1');
+      expect(body).toContain('ssr_renders_in_flight{handler="ssr"} 0');
+      expect(body).toContain("# TYPE ssr_event_loop_lag_seconds gauge");
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("createServer logging", () => {
+  it("should echo the request id and log failures with request context", async () => {
+    const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+    const server = await listen(
+      await createServer({
+        setup: async (url) => ({ url }),
+        render: async () => {
+          throw new Error("boom");
+        },
+        logger,
+        accessLog: true,
+      }),
+    );
+
+    try {
+      const res = await server.post(
+        "/",
+        { url: "/page" },
+        { "X-Request-Id": "abc-123" },
+      );
+
+      expect(res.status).toBe(500);
+      expect(res.headers.get("x-request-id")).toBe("abc-123");
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.objectContaining({
+          requestId: "abc-123",
+          route: "/",
+          url: "/page",
+          phase: "render",
+          err: expect.any(Error),
+        }),
+        "Render failed",
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ requestId: "abc-123", status: 500 }),
+        "request completed",
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("createServer auth", () => {
+  it("should require signed requests on rendering routes but not /health", async () => {
+    const server = await listen(
+      await createServer({
+        setup: async (url) => ({ url }),
+        render: async ({ url }) => ({ body: `<p>${url}</p>` }),
+        auth: { secret: "s3cret" },
+        logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+      }),
+    );
+
+    try {
+      const body = { url: "/" };
+      const unsigned = await server.post("/", body);
+      expect(unsigned.status).toBe(401);
+      expect((await unsigned.json()).code).toBe("UNAUTHORIZED");
+
+      const batch = await server.post("/batch", { jobs: [body] });
+      expect(batch.status).toBe(401);
+
+      const signed = await server.post(
+        "/",
+        body,
+        signRequest(
+          { method: "POST", path: "/", body: JSON.stringify(body) },
+          "s3cret",
+        ),
+      );
+      expect(signed.status).toBe(200);
+      expect(await signed.json()).toEqual({ body: "<p>/</p>" });
+
+      expect((await fetch(`${server.url}/health`)).status).toBe(200);
+
+      // Compressed bodies are verified before they are decompressed
+      const compressed = await fetch(`${server.url}/`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "content-encoding": "gzip",
+        },
+        body: "not gzip",
+      });
+      expect(compressed.status).toBe(401);
+
+      const gzipped = gzipSync(JSON.stringify(body));
+      const decompressed = await fetch(`${server.url}/`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "content-encoding": "gzip",
+          ...signRequest(
+            { method: "POST", path: "/", body: gzipped },
+            "s3cret",
+          ),
+        },
+        body: gzipped,
+      });
+      expect(await decompressed.json()).toEqual({ body: "<p>/</p>" });
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("createServer load shedding", () => {
+  it("should answer 503 with Retry-After once the render queue is full", async () => {
+    let finish!: () => void;
+    const rendering = new Promise<void>((resolve) => (finish = resolve));
+    const server = await listen(
+      await createServer({
+        setup: async (url) => ({ url }),
+        render: async () => {
+          await rendering;
+          return { body: "<div>Test</div>" };
+        },
+        maxConcurrentRenders: 1,
+        maxQueueSize: 0,
+        logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+      }),
+    );
+
+    try {
+      const first = server.post("/", { url: "/" });
+      await vi.waitFor(async () => {
+        const health = await (await fetch(`${server.url}/health`)).json();
+        expect(health.renders).toEqual({
+          active: 1,
+          maxConcurrent: 1,
+          queued: 0,
+          maxQueue: 0,
+        });
+      });
+
+      const rejected = await server.post("/", { url: "/" });
+      expect(rejected.status).toBe(503);
+      expect(rejected.headers.get("retry-after")).toBe("1");
+      expect((await rejected.json()).code).toBe("OVERLOADED");
+
+      finish();
+      expect((await first).status).toBe(200);
+      expect((await server.post("/", { url: "/" })).status).toBe(200);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("createServer apps", () => {
+  const appServer = () =>
+    createServer({
+      apps: {
+        storefront: {
+          setup: (url) => ({ url }),
+          render: ({ url }) => ({ body: `<main>Store ${url}</main>` }),
+          streamCallbacks: { app: () => "Store" as any },
+        },
+        admin: {
+          setup: (url) => ({ url }),
+          render: ({ url }) => ({ body: `<main>Admin ${url}</main>` }),
+          middleware: (req, res) => res.send(`admin ${req.path}`),
+        },
+      },
+      logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+    });
+
+  it("should route requests by path prefix or app body field", async () => {
+    const server = await listen(await appServer());
+
+    try {
+      const prefixed = await server.post("/apps/admin/static", { url: "/" });
+      expect((await prefixed.json()).body).toBe("<main>Admin /</main>");
+
+      const named = await server.post("/", { url: "/", app: "storefront" });
+      expect((await named.json()).body).toBe("<main>Store /</main>");
+
+      const middleware = await fetch(`${server.url}/apps/admin/ping`);
+      expect(await middleware.text()).toBe("admin /ping");
+
+      // Only the storefront streams
+      const stream = await server.post("/apps/admin/stream", { url: "/" });
+      expect(await stream.text()).toBe("admin /stream");
+
+      for (const body of [{ url: "/" }, { url: "/", app: "blog" }]) {
+        const res = await server.post("/", body);
+        expect(res.status).toBe(400);
+        expect(await res.json()).toMatchObject({
+          code: "VALIDATION_ERROR",
+          field: "app",
+        });
+      }
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should report each app in health checks and label its metrics", async () => {
+    const server = await listen(await appServer());
+
+    try {
+      await server.post("/apps/storefront", { url: "/" });
+
+      const health = await (await fetch(`${server.url}/health`)).json();
+      expect(health.apps).toEqual({
+        storefront: { status: "ready", stream: true },
+        admin: { status: "ready", stream: false },
+      });
+
+      const metrics = await (await fetch(`${server.url}/metrics`)).text();
+      expect(metrics).toContain(
+        'ssr_requests_total{route="/",status="200",app="storefront"} 1',
+      );
+      expect(metrics).toContain(
+        '{app="storefront",handler="ssr",phase="render"}',
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("should reject top-level callbacks and invalid app names", async () => {
+    const render = () => ({ body: "" });
+
+    await expect(
+      createServer({ render, apps: { admin: { setup: () => ({}), render } } }),
+    ).rejects.toThrow("configured per app");
+    await expect(
+      createServer({ apps: { "admin/v2": { setup: () => ({}), render } } }),
+    ).rejects.toThrow("Invalid app name: admin/v2");
+    await expect(createServer({ apps: { admin: { render } } })).rejects.toThrow(
+      "apps.admin: setup callback is required",
+    );
+  });
+});
+
+describe("startServer", () => {
+  const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+
+  it("should drain in-flight renders and report draining on shutdown", async () => {
+    const onShutdown = vi.fn();
+    const { app, url, close } = await startServer({
+      hostname: "127.0.0.1",
+      port: 0,
+      setup: async (url) => ({ url }),
+      render: () =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve({ body: "<div>Done</div>" }), 100),
+        ),
+      onShutdown,
+      shutdownDelay: 0,
+      handleSignals: false,
+      logger,
+    });
+
+    const pending = fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ url: "/" }),
+    });
+    await vi.waitFor(() => expect(app.locals.lifecycle.pending).toBe(1));
+
+    const closed = close();
+    expect(app.locals.lifecycle.draining).toBe(true);
+
+    const res = await pending;
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ body: "<div>Done</div>" });
+
+    await closed;
+    expect(onShutdown).toHaveBeenCalledOnce();
+  });
+
+  it("should answer health checks with 503 during the shutdown delay", async () => {
+    const { url, close } = await startServer({
+      hostname: "127.0.0.1",
+      port: 0,
+      setup: async (url) => ({ url }),
+      render: async () => ({ body: "" }),
+      shutdownDelay: 100,
+      handleSignals: false,
+      logger,
+    });
+
+    const closed = close();
+    const health = await fetch(`${url}/health`);
+    expect(health.status).toBe(503);
+    expect(await health.json()).toMatchObject({ status: "draining" });
+
+    await closed;
+    await expect(fetch(`${url}/health`)).rejects.toThrow();
+  });
+
+  it("should close open connections once the shutdown timeout is exceeded", async () => {
+    const { url, close } = await startServer({
+      hostname: "127.0.0.1",
+      port: 0,
+      setup: async (url) => ({ url }),
+      render: () => new Promise<never>(() => {}),
+      shutdownTimeout: 50,
+      shutdownDelay: 0,
+      handleSignals: false,
+      logger,
+    });
+
+    const pending = fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ url: "/" }),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await close();
+    await expect(pending).rejects.toThrow();
+    expect(logger.warn).toHaveBeenCalledWith(
+      { pending: 1 },
+      "Shutdown timed out, closing open connections",
+    );
+  });
+});
+
+describe("createHealthHandler", () => {
+  it("should fail health checks while draining", async () => {
+    const app = await createServer({
+      setup: async (url) => ({ url }),
+      render: async () => ({ body: "" }),
+    });
+    const server = await listen(app);
+
+    try {
+      app.locals.lifecycle.draining = true;
+      const res = await fetch(`${server.url}/health`);
+
+      expect(res.status).toBe(503);
+      expect(await res.json()).toMatchObject({ status: "draining" });
+    } finally {
+      await server.close();
+    }
+  });
+});
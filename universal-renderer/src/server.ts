@@ -1,26 +1,91 @@
-import express from "express";
+import express, {
+  type NextFunction,
+  type Request,
+  type RequestHandler,
+  type Response,
+  type Router,
+} from "express";
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
 
+import { createAuthMiddleware, resolveAuth, verifyRawBody } from "@/auth";
+import { createBodyParser } from "@/body";
+import { createMemoryCache } from "@/cache";
+import { createCompressionMiddleware } from "@/compression";
+import { sendError, ValidationError } from "@/errors";
 import {
+  createBatchHandler,
   createErrorHandler,
   createHealthHandler,
+  createMetricsHandler,
+  createMetricsMiddleware,
   createSSRHandler,
   createStreamHandler,
 } from "@/handlers";
-import type { ServerOptions } from "@/types";
-export type { RenderOutput, ServerOptions } from "@/types";
+import { ServerLifecycle } from "@/lifecycle";
+import { RenderLimiter } from "@/limiter";
+import {
+  createRequestLogMiddleware,
+  defaultLogger,
+  requestLogger,
+} from "@/logger";
+import {
+  createRenderMetrics,
+  withMetricLabels,
+  type RenderMetrics,
+} from "@/metrics";
+import { TemplateRegistry } from "@/templates";
+import type {
+  AppOptions,
+  Logger,
+  RunningServer,
+  ServerOptions,
+  SSRHandlerOptions,
+} from "@/types";
+import { WorkerPool } from "@/workers";
+export type { AppOptions, RenderOutput, ServerOptions } from "@/types";
+
+/** Names of entries in `ServerOptions.apps`, usable as a path segment. */
+const APP_NAME = /^[A-Za-z0-9_-]+$/;
 
 /**
  * Creates an Express server configured for Server-Side Rendering (SSR).
  *
  * This function sets up a complete SSR server with the following endpoints:
  * - `GET /health` - Health check endpoint
+ * - `GET /metrics` - Prometheus metrics endpoint
  * - `POST /` and `POST /static` - JSON-based SSR rendering
+ * - `POST /batch` - JSON-based SSR rendering of many jobs in one request
  * - `POST /stream` - Streaming SSR (if streamCallbacks provided)
  *
+ * With the `workers` option, the JSON and batch endpoints render inside a pool of
+ * worker threads so that slow renders do not block health checks or streaming.
+ *
+ * With the `auth` option or the `SSR_AUTH_SECRET` environment variable, every rendering
+ * endpoint requires an HMAC signature; unsigned or expired requests get `401`.
+ *
+ * Request bodies may be JSON or MessagePack, compressed with gzip, deflate or Brotli, up to
+ * `bodyLimit`. With `compression`, responses are compressed for clients that accept it.
+ *
+ * With `apps`, one process serves several named render entries. Each app has its own
+ * rendering endpoints under `/apps/:name`, which are also reached through the endpoints
+ * above with an `app` body field, and its own middleware, error handler, caches, worker
+ * pool and `app` label in logs and metrics. `/health` reports the readiness of each.
+ *
+ * With `maxConcurrentRenders`, the rendering endpoints share a bounded number of render
+ * slots. Requests wait for one in a queue of up to `maxQueueSize` for at most `queueTimeout`
+ * and are otherwise answered with `503` and `Retry-After`.
+ *
+ * The application does not listen by itself; use {@link startServer} to bind it to
+ * `hostname`/`port` with graceful shutdown, or call `app.listen()` yourself.
+ *
  * For more flexibility, consider using the individual handler factories:
  * - `createHealthHandler()` for health checks
+ * - `createMetricsHandler(metrics)` for Prometheus metrics
  * - `createSSRHandler(options)` for JSON-based SSR
+ * - `createBatchHandler(options)` for batched JSON-based SSR
  * - `createStreamHandler(options)` for streaming SSR
+ * - `createAuthMiddleware(auth)` to require signed requests
  *
  * @template TContext - The type of context object used throughout the rendering pipeline
  * @param options - Configuration options for the SSR server
@@ -49,48 +114,379 @@ export type { RenderOutput, ServerOptions } from "@/types";
 export async function createServer<
   TContext extends Record<string, any> = Record<string, any>,
 >(options: ServerOptions<TContext>): Promise<express.Application> {
-  if (!options.render) {
-    throw new Error("render callback is required");
+  if (options.apps) {
+    if (
+      options.setup ||
+      options.render ||
+      options.streamCallbacks ||
+      options.workers
+    ) {
+      throw new Error(
+        "setup, render, streamCallbacks and workers are configured per app when apps is set",
+      );
+    }
+    if (!Object.keys(options.apps).length) {
+      throw new Error("apps must configure at least one app");
+    }
+    for (const [name, appOptions] of Object.entries(options.apps)) {
+      if (!APP_NAME.test(name)) throw new Error(`Invalid app name: ${name}`);
+      assertCallbacks(appOptions, `apps.${name}: `);
+    }
+  } else {
+    assertCallbacks(options);
   }
 
   const app = express();
+  const logger = options.logger ?? defaultLogger;
+  const metrics = options.metrics ?? createRenderMetrics();
+  const limiter =
+    options.maxConcurrentRenders !== undefined
+      ? new RenderLimiter({
+          maxConcurrentRenders: options.maxConcurrentRenders,
+          maxQueueSize: options.maxQueueSize,
+          queueTimeout: options.queueTimeout,
+        })
+      : undefined;
 
-  // Basic middleware
-  app.use(express.json({ limit: "50mb" }));
+  // Track in-flight responses so shutdown can drain them
+  const lifecycle = new ServerLifecycle(logger);
+  app.locals.lifecycle = lifecycle;
+  app.use(lifecycle.track());
+
+  // Assign request ids and optionally log every request
+  app.use(createRequestLogMiddleware(logger, options.accessLog));
+
+  // Count every request by route and status code
+  app.use(createMetricsMiddleware(metrics));
+
+  // Compress responses, flushing streamed chunks as they are written
+  if (options.compression) {
+    app.use(
+      createCompressionMiddleware(
+        options.compression === true ? {} : options.compression,
+      ),
+    );
+  }
+
+  // JSON and MessagePack bodies, optionally compressed; signed requests are verified
+  // against the body as received, and compressed ones before they are decompressed
+  const auth = resolveAuth(options.auth);
+  app.use(
+    createBodyParser(
+      {
+        limit: options.bodyLimit,
+        ...(auth && { verify: verifyRawBody(auth) }),
+      },
+      logger,
+    ),
+  );
   app.use(express.urlencoded({ extended: true }));
 
+  // Rendering routes accept props, so they require a signature when auth is configured,
+  // and share the render slots once verified
+  const guards = [
+    ...(auth ? [createAuthMiddleware(auth, logger)] : []),
+    ...(limiter ? [limiter.limit(logger)] : []),
+  ];
+
+  // Each app gets its own routes, caches and worker pool, labeled in logs and metrics.
+  // Without `apps`, the top-level options form a single unnamed app served at the root
+  const apps = new Map<string, AppRoutes>();
+  for (const [name, appOptions] of Object.entries(
+    options.apps ?? { "": options },
+  )) {
+    const routes = createAppRoutes(
+      appOptions,
+      options.apps
+        ? {
+            logger: logger.child?.({ app: name }) ?? logger,
+            metrics: withMetricLabels(metrics, { app: name }),
+            guards,
+          }
+        : { logger, metrics, guards },
+    );
+    const pool = routes.pool;
+    if (pool) lifecycle.onClose(() => pool.close());
+    apps.set(name, routes);
+  }
+
   // Health check endpoint using the health handler factory
-  app.get("/health", createHealthHandler());
+  app.get(
+    "/health",
+    createHealthHandler({
+      workers: options.apps ? undefined : apps.get("")!.pool,
+      limiter,
+      lifecycle,
+      apps:
+        options.apps &&
+        Object.fromEntries(
+          [...apps].map(([name, routes]) => [
+            name,
+            {
+              stream: Boolean(options.apps![name]!.streamCallbacks),
+              workers: routes.pool,
+            },
+          ]),
+        ),
+    }),
+  );
+
+  // Prometheus metrics endpoint
+  app.get("/metrics", createMetricsHandler(metrics));
+
+  if (options.apps) {
+    // Requests name their app with the `/apps/:name` prefix or an `app` body field
+    const dispatch = (
+      name: unknown,
+      req: Request,
+      res: Response,
+      next: NextFunction,
+    ) => {
+      const routes = typeof name === "string" ? apps.get(name) : undefined;
+      if (!routes) {
+        const error = new ValidationError(
+          name === undefined
+            ? "Request must name an app"
+            : `Unknown app: ${String(name)}`,
+          "app",
+        );
+        requestLogger(logger, req, res).warn(
+          { field: error.field, err: error },
+          "Unknown app",
+        );
+        return sendError(res, error);
+      }
+
+      res.locals.app = name;
+      routes.router(req, res, next);
+    };
+
+    app.use("/apps/:name", (req, res, next) =>
+      dispatch(req.params.name, req, res, next),
+    );
+    app.post(["/", "/static", "/batch", "/stream"], (req, res, next) =>
+      dispatch(req.body?.app, req, res, next),
+    );
+
+    // Server-wide middleware, after the apps
+    if (options.middleware) {
+      app.use(options.middleware);
+    }
+  } else {
+    app.use(apps.get("")!.router);
+  }
+
+  // Error handler for everything outside the app routes
+  if (options.error) {
+    app.use(options.error);
+  } else {
+    app.use(createErrorHandler({ logger }));
+  }
+
+  return app;
+}
+
+/** Options shared by the routes of every app. */
+type SharedAppOptions = {
+  logger: Logger;
+  metrics: RenderMetrics;
+  /** Auth and load shedding middleware run before each rendering route. */
+  guards: RequestHandler[];
+};
+
+/** The routes of an app and the worker pool they render on. */
+type AppRoutes = {
+  router: Router;
+  pool?: WorkerPool;
+};
+
+/**
+ * Creates the rendering routes of an app, followed by its middleware and error handler.
+ */
+function createAppRoutes(
+  options: AppOptions<any>,
+  shared: SharedAppOptions,
+): AppRoutes {
+  const { logger, metrics, guards } = shared;
+  const router = express.Router();
+  const pool = options.workers && new WorkerPool(options.workers, logger);
+
+  // Share one cache store between the JSON and batch endpoints
+  const cache = options.cache && {
+    ...options.cache,
+    store: options.cache.store ?? createMemoryCache(),
+  };
+
+  // Options shared by every rendering handler
+  const handlerOptions = {
+    timeout: options.timeout,
+    validate: options.validate,
+    assets: options.assets,
+    fallback: options.fallback,
+    metrics,
+    logger,
+  };
+
+  // JSON renders run on the worker pool when configured; setup only forwards the request,
+  // and the modules rendered in the worker are kept on the context for the asset links.
+  // Workers still rendering at the configured deadline are replaced
+  const renderOptions: SSRHandlerOptions<any> = pool
+    ? {
+        setup: (url, props, response) => ({ url, props, response }),
+        render: async (context) => {
+          const { modules, ...output } = await pool.run(
+            context.url,
+            context.props,
+            context.response,
+            options.timeout,
+          );
+          context.modules = modules;
+          return output;
+        },
+      }
+    : {
+        setup: options.setup!,
+        render: options.render!,
+        cleanup: options.cleanup,
+      };
 
   // JSON SSR endpoints using the SSR handler factory
   const ssrHandler = createSSRHandler({
-    setup: options.setup,
-    render: options.render,
-    cleanup: options.cleanup,
+    ...handlerOptions,
+    ...renderOptions,
+    cache,
   });
-  app.post(["/", "/static"], ssrHandler);
+  router.post(["/", "/static"], ...guards, ssrHandler);
+
+  // Batch SSR endpoint for rendering many jobs in one round trip
+  const batchHandler = createBatchHandler({
+    ...handlerOptions,
+    ...renderOptions,
+    cache,
+    concurrency: options.batchConcurrency,
+  });
+  router.post("/batch", ...guards, batchHandler);
 
   // Streaming SSR endpoint (if streaming is configured)
   if (options.streamCallbacks) {
     const streamHandler = createStreamHandler({
-      setup: options.setup,
+      ...handlerOptions,
+      setup: options.setup!,
       cleanup: options.cleanup,
       streamCallbacks: options.streamCallbacks,
+      renderer: options.renderer,
+      streamMode: options.streamMode,
+      isBot: options.isBot,
+      templates:
+        options.templates === false
+          ? undefined
+          : new TemplateRegistry(options.templates),
     });
-    app.post("/stream", streamHandler);
+    router.post("/stream", ...guards, streamHandler);
   }
 
   // Custom middleware
   if (options.middleware) {
-    app.use(options.middleware);
+    router.use(options.middleware);
   }
 
   // Error handler
   if (options.error) {
-    app.use(options.error);
+    router.use(options.error);
   } else {
-    app.use(createErrorHandler());
+    router.use(createErrorHandler({ logger }));
   }
 
-  return app;
+  return { router, pool };
+}
+
+/**
+ * Throws when an app is missing the callbacks its routes need.
+ */
+function assertCallbacks(options: AppOptions<any>, prefix = "") {
+  if (!options.render && !options.workers) {
+    throw new Error(`${prefix}render callback is required`);
+  }
+
+  if (!options.setup && (!options.workers || options.streamCallbacks)) {
+    throw new Error(`${prefix}setup callback is required`);
+  }
+}
+
+/**
+ * Creates the SSR server with {@link createServer} and starts listening on `hostname`/`port`.
+ *
+ * On `SIGTERM` or `SIGINT` `/health` starts answering `503` with `status: "draining"`,
+ * and after `shutdownDelay` the server stops accepting connections. In-flight renders
+ * and open streams then get up to `shutdownTimeout` to finish. Remaining connections
+ * are then closed, the worker pool is stopped, `onShutdown` runs and the process exits.
+ * A second signal exits immediately.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - Configuration options for the SSR server
+ * @returns Promise that resolves once the server is listening
+ *
+ * @example
+ * ```typescript
+ * import { startServer } from 'universal-renderer';
+ *
+ * const { url } = await startServer({
+ *   port: 3001,
+ *   setup: async (url, props) => ({ url, props }),
+ *   render: async (context) => ({ body: renderToString(<App {...context} />) }),
+ *   onShutdown: () => db.close(),
+ * });
+ * ```
+ */
+export async function startServer<
+  TContext extends Record<string, any> = Record<string, any>,
+>(options: ServerOptions<TContext>): Promise<RunningServer> {
+  const app = await createServer(options);
+  const lifecycle: ServerLifecycle = app.locals.lifecycle;
+  const logger = options.logger ?? defaultLogger;
+
+  const server = app.listen(
+    options.port ?? 3001,
+    options.hostname ?? "0.0.0.0",
+  );
+  await once(server, "listening");
+
+  const { address, port } = server.address() as AddressInfo;
+  const host = address.includes(":") ? `[${address}]` : address;
+  const url = `http://${host}:${port}`;
+  logger.info({ url }, "SSR server listening");
+
+  const close = () =>
+    lifecycle.shutdown(server, {
+      timeout: options.shutdownTimeout ?? 25_000,
+      delay: options.shutdownDelay ?? 5_000,
+      onShutdown: options.onShutdown,
+    });
+
+  if (options.handleSignals ?? true) {
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (lifecycle.draining) {
+        logger.warn({ signal }, "Forced exit during shutdown");
+        process.exit(1);
+      }
+
+      logger.info({ signal }, "Received shutdown signal");
+      close().then(
+        () => process.exit(0),
+        (error) => {
+          logger.error({ err: error }, "Shutdown failed");
+          process.exit(1);
+        },
+      );
+    };
+
+    process.on("SIGTERM", onSignal);
+    process.on("SIGINT", onSignal);
+    server.once("close", () => {
+      process.off("SIGTERM", onSignal);
+      process.off("SIGINT", onSignal);
+    });
+  }
+
+  return { app, server, url, close };
 }
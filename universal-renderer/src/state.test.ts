@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  parseState,
+  readState,
+  serializeState,
+  STATE_SCRIPT_ID,
+  stateScript,
+} from "./state";
+
+describe("serializeState", () => {
+  it("should round-trip values plain JSON cannot represent", () => {
+    const state = {
+      at: new Date("2025-01-02T03:04:05.000Z"),
+      tags: new Set(["a", "b"]),
+      byId: new Map([[1, { name: "One" }]]),
+      big: 10n ** 20n,
+      missing: undefined,
+      ratio: NaN,
+      limit: -Infinity,
+      pattern: /ab+c/gi,
+      list: [1, undefined, null],
+      $t: "not a tag",
+    };
+
+    expect(parseState(serializeState(state))).toEqual(state);
+  });
+
+  it("should escape characters that could break out of the script element", () => {
+    const json = serializeState({
+      html: "</script><script>alert(1)</script>",
+      text: "a\u2028b\u2029c & d",
+    });
+
+    expect(json).not.toMatch(/[<>&\u2028\u2029]/);
+    expect(parseState(json)).toEqual({
+      html: "</script><script>alert(1)</script>",
+      text: "a\u2028b\u2029c & d",
+    });
+  });
+
+  it("should reject circular references and functions", () => {
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+
+    expect(() => serializeState(cyclic)).toThrow(
+      "Cannot serialize circular reference at state.self",
+    );
+    expect(() => serializeState({ onClick: () => {} })).toThrow(
+      "Cannot serialize function at state.onClick",
+    );
+  });
+});
+
+describe("readState", () => {
+  it("should read the state rendered into the document", () => {
+    document.body.innerHTML = stateScript({ user: { id: 1n } });
+
+    expect(readState()).toEqual({ user: { id: 1n } });
+    expect(readState("missing")).toBeUndefined();
+    expect(document.getElementById(STATE_SCRIPT_ID)?.getAttribute("type")).toBe(
+      "application/json",
+    );
+  });
+});
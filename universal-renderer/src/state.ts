@@ -0,0 +1,186 @@
+/** The `id` of the script element carrying the hydration state. */
+export const STATE_SCRIPT_ID = "__SSR_STATE__";
+
+/** Key marking values that plain JSON cannot represent. */
+const TAG = "$t";
+
+/** Characters that could end the script element or break JavaScript parsers. */
+const UNSAFE_CHARS: Record<string, string> = {
+  "<": "\\u003c",
+  ">": "\\u003e",
+  "&": "\\u0026",
+  "\u2028": "\\u2028",
+  "\u2029": "\\u2029",
+};
+
+const isPlainObject = (value: object) => {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Converts a value into plain JSON, tagging the types JSON cannot represent.
+ */
+function encode(value: unknown, path: string, seen: Set<object>): unknown {
+  switch (typeof value) {
+    case "undefined":
+      return { [TAG]: "undefined" };
+    case "bigint":
+      return { [TAG]: "BigInt", v: value.toString() };
+    case "number":
+      return Number.isFinite(value)
+        ? value
+        : { [TAG]: "Number", v: String(value) };
+    case "function":
+    case "symbol":
+      throw new TypeError(`Cannot serialize ${typeof value} at ${path}`);
+    case "object":
+      break;
+    default:
+      return value;
+  }
+
+  if (value === null) return null;
+  if (value instanceof Date)
+    return { [TAG]: "Date", v: String(value.getTime()) };
+  if (value instanceof RegExp) {
+    return { [TAG]: "RegExp", v: [value.source, value.flags] };
+  }
+
+  if (seen.has(value)) {
+    throw new TypeError(`Cannot serialize circular reference at ${path}`);
+  }
+  seen.add(value);
+
+  let encoded: unknown;
+  if (value instanceof Map) {
+    encoded = {
+      [TAG]: "Map",
+      v: Array.from(value, ([key, entry], index) => [
+        encode(key, `${path}.${index}.key`, seen),
+        encode(entry, `${path}.${index}.value`, seen),
+      ]),
+    };
+  } else if (value instanceof Set) {
+    encoded = {
+      [TAG]: "Set",
+      v: Array.from(value, (entry, index) =>
+        encode(entry, `${path}.${index}`, seen),
+      ),
+    };
+  } else if (Array.isArray(value)) {
+    encoded = Array.from(value, (entry, index) =>
+      encode(entry, `${path}.${index}`, seen),
+    );
+  } else if (!isPlainObject(value) && "toJSON" in value) {
+    encoded = encode((value as { toJSON(): unknown }).toJSON(), path, seen);
+  } else {
+    const entries: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      entries[key] = encode(entry, `${path}.${key}`, seen);
+    }
+    // Objects that happen to use the tag key are wrapped so they are not mistaken for tags
+    encoded = TAG in entries ? { [TAG]: "Object", v: entries } : entries;
+  }
+
+  seen.delete(value);
+  return encoded;
+}
+
+/**
+ * Restores the values tagged by {@link encode}.
+ */
+function decode(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decode);
+  if (typeof value !== "object" || value === null) return value;
+
+  const { [TAG]: tag, v } = value as { [TAG]?: string; v?: any };
+  switch (tag) {
+    case undefined:
+      return decodeEntries(value as Record<string, unknown>);
+    case "undefined":
+      return undefined;
+    case "BigInt":
+      return BigInt(v);
+    case "Number":
+      return Number(v);
+    case "Date":
+      return new Date(Number(v));
+    case "RegExp":
+      return new RegExp(v[0], v[1]);
+    case "Map":
+      return new Map(
+        (v as unknown[][]).map(([key, entry]) => [decode(key), decode(entry)]),
+      );
+    case "Set":
+      return new Set((v as unknown[]).map(decode));
+    case "Object":
+      return decodeEntries(v);
+    default:
+      throw new TypeError(`Unknown state tag: ${tag}`);
+  }
+}
+
+function decodeEntries(value: Record<string, unknown>) {
+  const entries: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    entries[key] = decode(entry);
+  }
+  return entries;
+}
+
+/**
+ * Serializes hydration state to JSON that is safe to embed in HTML.
+ *
+ * Besides plain JSON values, `Date`, `Map`, `Set`, `BigInt`, `RegExp`, `undefined`,
+ * `NaN` and infinities survive the round trip through {@link parseState}. Characters
+ * that could close the script element (`<`, `>`, `&`) and the line separators
+ * U+2028/U+2029 are escaped.
+ *
+ * @param state - The state to serialize
+ * @returns JSON text
+ * @throws {TypeError} For functions, symbols and circular references
+ */
+export function serializeState(state: unknown): string {
+  return JSON.stringify(encode(state, "state", new Set())).replace(
+    /[<>&\u2028\u2029]/g,
+    (char) => UNSAFE_CHARS[char]!,
+  );
+}
+
+/**
+ * Parses JSON text produced by {@link serializeState}.
+ */
+export function parseState<T = unknown>(json: string): T {
+  return decode(JSON.parse(json)) as T;
+}
+
+/**
+ * Renders hydration state as a `<script type="application/json">` element.
+ *
+ * @param state - The state to serialize
+ * @param id - The `id` of the script element
+ */
+export function stateScript(state: unknown, id = STATE_SCRIPT_ID): string {
+  return `<script type="application/json" id="${id}">${serializeState(state)}</script>`;
+}
+
+/**
+ * Reads the hydration state rendered by the server. Call it in the browser before hydrating.
+ *
+ * @param id - The `id` of the script element
+ * @returns The state, or `undefined` when the page carries none
+ *
+ * @example
+ * ```typescript
+ * import { readState } from 'universal-renderer/client';
+ *
+ * const state = readState<{ user: User }>();
+ * hydrateRoot(document.getElementById('root')!, <App {...state} />);
+ * ```
+ */
+export function readState<T = unknown>(id = STATE_SCRIPT_ID): T | undefined {
+  const element = document.getElementById(id);
+  if (!element?.textContent) return undefined;
+  return parseState<T>(element.textContent);
+}
@@ -0,0 +1,238 @@
+import { PassThrough, Writable } from "node:stream";
+
+import {
+  prepareDocument,
+  type DocumentRun,
+  type DocumentStream,
+} from "@/document";
+import { RenderTimeoutError, SSRError } from "@/errors";
+import { reactRenderer } from "@/renderers";
+import type { ResponseControl } from "@/response";
+import type { RenderTimer } from "@/timing";
+import type { StreamHandlerOptions, StreamRenderResult } from "@/types";
+
+/**
+ * Where {@link streamDocument} writes a document: an HTTP response or a recorder.
+ */
+export type DocumentTarget = {
+  /**
+   * Sends the status and headers set on the {@link ResponseControl}, right before the
+   * first byte, and returns the destination the document is written to.
+   */
+  open(response: ResponseControl, timer: RenderTimer): NodeJS.WritableStream;
+  /** Answers a redirect requested by the render, without a body. */
+  redirect(response: ResponseControl): void;
+  /** Called once the template head and the shell were written. */
+  shellWritten?(): void;
+  /** Called right before the hydration state, error marker and template tail are written. */
+  ending?(): void;
+};
+
+/**
+ * Streams a document with the streaming callbacks to a Node stream; the pipeline behind
+ * the Express `/stream` route, `prerender` and `renderStream`. `createFetchHandler`
+ * mirrors it on Web streams with `streamWebDocument`.
+ *
+ * Setup runs within the deadline and its redirects are answered without rendering.
+ * Once the shell, or in `allReady` mode all content, is ready, the asset links and
+ * `streamCallbacks.head` are injected at the head marker and the response is opened.
+ * Errors raised from then on are written to the error marker before the template tail,
+ * together with the hydration state. When the deadline is reached, pending boundaries
+ * are aborted and left to the client. Cleanup runs once the document ended, its
+ * destination closed or it failed.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - The setup/cleanup and streaming callbacks, renderer and metrics
+ * @param url - The URL being rendered
+ * @param props - Additional props passed from the client
+ * @param run - The split template, stream mode, optional deadline in milliseconds and CSP
+ *   nonce, the timer recording phase durations, the asset resolver, a logger for errors
+ *   raised while streaming and the target receiving the document
+ * @returns The document once it started streaming or was redirected
+ * @throws {SSRError} When setup, the shell or the head failed before anything was written
+ */
+export async function streamDocument<TContext extends Record<string, any>>(
+  options: Pick<
+    StreamHandlerOptions<TContext>,
+    "setup" | "cleanup" | "streamCallbacks" | "renderer" | "metrics"
+  >,
+  url: string,
+  props: Record<string, any>,
+  run: DocumentRun & { target: DocumentTarget },
+): Promise<DocumentStream> {
+  const { streamCallbacks } = options;
+  const { timer, assets, log, target, nonce } = run;
+  const renderer = options.renderer ?? reactRenderer;
+  const prepared = await prepareDocument(options, url, props, run);
+  const { response, context, node, errors, failure } = prepared;
+
+  if (response.redirected) {
+    target.redirect(response);
+    return { response, errors, done: Promise.resolve() };
+  }
+
+  let deadline: ReturnType<typeof setTimeout> | undefined;
+  const cleanup = () => {
+    clearTimeout(deadline);
+    prepared.cleanup();
+  };
+
+  return new Promise((resolve, reject) => {
+    let settle: () => void;
+    const done = new Promise<void>((resolve) => {
+      settle = resolve;
+    });
+    const document: DocumentStream = { response, errors, done };
+
+    let destination: NodeJS.WritableStream | undefined;
+    let abandoned = false;
+    let ended = false;
+
+    // Fails the document while nothing was written yet, so the caller can answer the error
+    const fail = (error: SSRError) => {
+      abandoned = true;
+      cleanup();
+      reject(error);
+    };
+
+    // Hydration state and errors collected while streaming are written ahead of the tail
+    const finish = () => {
+      if (ended || !destination) return;
+      ended = true;
+      target.ending?.();
+      destination.end(prepared.end());
+
+      cleanup();
+      settle();
+    };
+
+    const writeDocument = async () => {
+      const head = await prepared.head();
+
+      // The shell asked for a redirect; drop the render instead of streaming it
+      if (response.redirected) {
+        abandoned = true;
+        rendering.abort();
+        cleanup();
+        target.redirect(response);
+        settle();
+        return resolve(document);
+      }
+
+      const output = target.open(response, timer);
+      destination = output;
+      output.write(head);
+
+      // Forwards the render to the destination, which must stay open for the tail
+      const body = new Writable({
+        write(chunk, _encoding, callback) {
+          if (output.write(chunk)) return callback();
+          output.once("drain", () => callback());
+        },
+        final(callback) {
+          finish();
+          callback();
+        },
+      });
+      output.on("close", () => {
+        body.destroy();
+        cleanup();
+        settle();
+      });
+
+      const transform = streamCallbacks.transform?.(context);
+      if (transform) {
+        const input = new PassThrough();
+        transform.on("error", (error) => {
+          const ssrError = SSRError.from(error, "stream");
+          errors.push(ssrError);
+          log.error(failure(ssrError), "Stream transform failed");
+          input.unpipe(transform);
+          finish();
+        });
+        input.pipe(transform).pipe(body);
+        rendering.pipe(input);
+      } else {
+        rendering.pipe(body);
+      }
+
+      target.shellWritten?.();
+      resolve(document);
+    };
+
+    // Writes the document once the shell, or in `allReady` mode all content, is ready.
+    // Renderers ignore the returned promise, so every failure is handled here
+    const flush = async () => {
+      try {
+        await writeDocument();
+      } catch (error) {
+        const ssrError = SSRError.from(error, timer.phase);
+
+        // Nothing was sent yet, so the caller can still answer with the error
+        if (!destination) {
+          rendering.abort(ssrError);
+          return fail(ssrError);
+        }
+
+        errors.push(ssrError);
+        log.error(failure(ssrError), "Stream failed");
+        finish();
+      }
+    };
+
+    let rendering: StreamRenderResult;
+    try {
+      timer.phase = "shell";
+      rendering = renderer.renderToStream(node, {
+        context,
+        bootstrapModules: assets?.bootstrapModules,
+        nonce,
+        onShellReady() {
+          const shell = timer.elapsed();
+          timer.phase = "stream";
+          timer.record("shell", shell);
+          options.metrics?.timeToShell.observe({}, shell / 1000);
+
+          if (run.mode === "shell") return flush();
+        },
+        onAllReady() {
+          if (run.mode === "allReady") return flush();
+        },
+        onShellError(error) {
+          if (abandoned) return;
+          const reported = errors.find(
+            (entry) => entry === error || entry.cause === error,
+          );
+          fail(reported ?? SSRError.from(error, "shell"));
+        },
+        onError(error, errorInfo) {
+          if (response.redirected || abandoned) return;
+
+          const ssrError = SSRError.from(error, timer.phase);
+          ssrError.componentStack ??= errorInfo?.componentStack ?? undefined;
+
+          // Aborting flushes client-side fallbacks for every pending boundary
+          if (error instanceof RenderTimeoutError) {
+            if (!errors.includes(ssrError)) errors.push(ssrError);
+            return;
+          }
+
+          errors.push(ssrError);
+          log.error(failure(ssrError), "Stream error");
+        },
+      });
+    } catch (error) {
+      return fail(SSRError.from(error, timer.phase));
+    }
+
+    // Abort whatever is still pending once the remaining budget is spent
+    const { timeout } = run;
+    if (timeout && !abandoned) {
+      const remaining = Math.max(0, timeout - timer.elapsed());
+      deadline = setTimeout(
+        () => rendering.abort(new RenderTimeoutError(timeout)),
+        remaining,
+      );
+    }
+  });
+}
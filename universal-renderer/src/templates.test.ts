@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { SSR_MARKERS } from "./constants";
+import { TemplateUnknownError, ValidationError } from "./errors";
+import { hashTemplate, resolveTemplate, TemplateRegistry } from "./templates";
+
+const template = (title: string) =>
+  `<html><head><title>${title}</title></head><body>${SSR_MARKERS.BODY}</body></html>`;
+
+describe("TemplateRegistry", () => {
+  it("should evict least recently used templates once the byte limit is exceeded", () => {
+    const registry = new TemplateRegistry({ maxBytes: 200 });
+    const [a, b, c] = ["a", "b", "c"].map(template) as [string, string, string];
+
+    registry.set(hashTemplate(a), a);
+    registry.set(hashTemplate(b), b);
+    registry.get(hashTemplate(a));
+    registry.set(hashTemplate(c), c);
+
+    expect(registry.get(hashTemplate(a))).toEqual({
+      head: "<html><head><title>a</title></head><body>",
+      tail: "</body></html>",
+    });
+    expect(registry.get(hashTemplate(b))).toBeUndefined();
+    expect(registry.size).toBe(2);
+  });
+});
+
+describe("resolveTemplate", () => {
+  it("should register inline templates sent with their hash", () => {
+    const registry = new TemplateRegistry();
+    const templateHash = hashTemplate(template("a"));
+
+    expect(() => resolveTemplate({ templateHash }, registry)).toThrow(
+      TemplateUnknownError,
+    );
+
+    resolveTemplate({ template: template("a"), templateHash }, registry);
+
+    expect(resolveTemplate({ templateHash }, registry).tail).toBe(
+      "</body></html>",
+    );
+  });
+
+  it("should reject hashes that do not match the template", () => {
+    expect(() =>
+      resolveTemplate(
+        { template: template("a"), templateHash: hashTemplate("b") },
+        new TemplateRegistry(),
+      ),
+    ).toThrow(
+      new ValidationError(
+        "templateHash does not match template",
+        "templateHash",
+      ),
+    );
+  });
+});
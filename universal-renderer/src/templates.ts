@@ -0,0 +1,143 @@
+import { createHash } from "node:crypto";
+
+import { SSR_MARKERS } from "@/constants";
+import { TemplateUnknownError, ValidationError } from "@/errors";
+import type { ValidationOptions } from "@/types";
+import { validateTemplate } from "@/validation";
+
+/** A stream template split around the body marker. */
+export type SplitTemplate = {
+  /** Everything before the body marker, still containing the head marker. */
+  head: string;
+  /** Everything after the body marker. */
+  tail: string;
+};
+
+/**
+ * Options for {@link TemplateRegistry}.
+ */
+export type TemplateRegistryOptions = {
+  /**
+   * Maximum total size of registered templates in bytes. Least recently used
+   * templates are evicted once it is exceeded.
+   * @default 10485760 (10 MB)
+   */
+  maxBytes?: number;
+};
+
+const TEMPLATE_HASH = /^[a-f0-9]{64}$/;
+
+/**
+ * Returns the hex-encoded SHA-256 hash identifying a template.
+ */
+export const hashTemplate = (template: string) =>
+  createHash("sha256").update(template).digest("hex");
+
+/**
+ * Splits a template around the body marker.
+ */
+export function splitTemplate(template: string): SplitTemplate {
+  const [head = "", tail = ""] = template.split(SSR_MARKERS.BODY);
+  return { head, tail };
+}
+
+/**
+ * Keeps pre-split stream templates by content hash, so clients only send large
+ * layouts the first time.
+ */
+export class TemplateRegistry {
+  private readonly entries = new Map<
+    string,
+    { template: SplitTemplate; size: number }
+  >();
+  private readonly maxBytes: number;
+  private totalBytes = 0;
+
+  constructor(options: TemplateRegistryOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+  }
+
+  /** Number of registered templates. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Returns the template registered under `hash`, if any. */
+  get(hash: string): SplitTemplate | undefined {
+    const entry = this.entries.get(hash);
+    if (!entry) return undefined;
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(hash);
+    this.entries.set(hash, entry);
+    return entry.template;
+  }
+
+  /** Registers a template under its hash and returns the split template. */
+  set(hash: string, template: string): SplitTemplate {
+    const size = Buffer.byteLength(template);
+    const split = splitTemplate(template);
+    if (size > this.maxBytes) return split;
+
+    const existing = this.entries.get(hash);
+    if (existing) {
+      this.entries.delete(hash);
+      this.totalBytes -= existing.size;
+    }
+
+    this.entries.set(hash, { template: split, size });
+    this.totalBytes += size;
+
+    for (const [key, entry] of this.entries) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.entries.delete(key);
+      this.totalBytes -= entry.size;
+    }
+
+    return split;
+  }
+}
+
+/**
+ * Resolves the template of a stream request.
+ *
+ * Requests carry the `template` itself, a `templateHash` of a template sent before,
+ * or both to register the template while rendering it.
+ *
+ * @throws {ValidationError} When the template is invalid or does not match its hash
+ * @throws {TemplateUnknownError} When only a hash is sent and the template is not registered
+ */
+export function resolveTemplate(
+  body: Record<string, any>,
+  registry: TemplateRegistry | undefined,
+  options: ValidationOptions = {},
+): SplitTemplate {
+  const { template, templateHash } = body;
+
+  if (templateHash !== undefined) {
+    if (typeof templateHash !== "string" || !TEMPLATE_HASH.test(templateHash)) {
+      throw new ValidationError(
+        "templateHash must be a hex-encoded SHA-256 hash",
+        "templateHash",
+      );
+    }
+
+    if (template === undefined) {
+      const registered = registry?.get(templateHash);
+      if (!registered) throw new TemplateUnknownError(templateHash);
+      return registered;
+    }
+  }
+
+  const valid = validateTemplate(template, SSR_MARKERS.BODY, options);
+  if (templateHash === undefined) return splitTemplate(valid);
+
+  if (hashTemplate(valid) !== templateHash) {
+    throw new ValidationError(
+      "templateHash does not match template",
+      "templateHash",
+    );
+  }
+
+  return registry ? registry.set(templateHash, valid) : splitTemplate(valid);
+}
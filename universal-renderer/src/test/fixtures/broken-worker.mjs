@@ -0,0 +1 @@
+throw new Error("cannot load");
@@ -0,0 +1,21 @@
+import { threadId } from "node:worker_threads";
+
+export const setup = (url, props, response) => {
+  if (props.redirect) response.redirect(props.redirect);
+  if (props.status) response.setStatus(props.status);
+  return { url, props, response, modules: props.modules };
+};
+
+export const render = async ({ url, props, response }) => {
+  if (props.crash) process.exit(1);
+  if (props.fail) throw new Error("boom");
+  if (props.delay)
+    await new Promise((resolve) => setTimeout(resolve, props.delay));
+  if (props.nonce)
+    return { body: `<script nonce="${response.nonce}"></script>` };
+  return { body: `<p>${url}</p>`, head: String(threadId) };
+};
+
+export const cleanup = ({ props }) => {
+  if (props.cleanupFail) throw new Error("cleanup failed");
+};
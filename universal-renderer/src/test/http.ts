@@ -0,0 +1,29 @@
+import type { Application } from "express";
+import type { AddressInfo } from "node:net";
+
+/**
+ * Starts an Express application on a random local port for the duration of a test.
+ */
+export async function listen(app: Application) {
+  const server = await new Promise<ReturnType<Application["listen"]>>(
+    (resolve) => {
+      const server = app.listen(0, "127.0.0.1", () => resolve(server));
+    },
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    post: (path: string, body: unknown, headers: Record<string, string> = {}) =>
+      fetch(`http://127.0.0.1:${port}${path}`, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body: JSON.stringify(body),
+      }),
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,121 @@
+// @vitest-environment node
+import { Suspense, createElement, use } from "react";
+import { renderToString } from "react-dom/server";
+import { describe, expect, it, vi } from "vitest";
+
+import { SSR_MARKERS } from "@/constants";
+import { SSRError } from "@/errors";
+import { renderOnce, renderStream } from "./testing";
+
+const template = `<html><head>${SSR_MARKERS.HEAD}</head><body>${SSR_MARKERS.BODY}</body></html>`;
+
+const Delayed = () =>
+  createElement(
+    "p",
+    null,
+    use(new Promise<string>((resolve) => setTimeout(resolve, 20, "Ready"))),
+  );
+
+const app = () =>
+  createElement(
+    "main",
+    null,
+    createElement(
+      Suspense,
+      { fallback: createElement("p", null, "Loading") },
+      createElement(Delayed),
+    ),
+  );
+
+describe("renderOnce", () => {
+  it("should return the output sent by the JSON routes and run cleanup", async () => {
+    const cleanup = vi.fn();
+    const output = await renderOnce(
+      {
+        setup: (url, props, response) => {
+          response.setStatus(404);
+          return { url, props };
+        },
+        render: ({ props }) => ({
+          body: renderToString(createElement("h1", null, props.title)),
+          state: { title: props.title },
+        }),
+        cleanup,
+      },
+      { url: "/about", props: { title: "About" } },
+    );
+
+    expect(output.body).toBe("<h1>About</h1>");
+    expect(output.state).toContain('"title":"About"');
+    expect(output.response).toEqual({ status: 404 });
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw SSRErrors for invalid requests and failed renders", async () => {
+    const cleanup = vi.fn();
+    const options = {
+      setup: () => ({}),
+      render: () => {
+        throw new Error("boom");
+      },
+      cleanup,
+    };
+
+    await expect(
+      renderOnce(options, { url: "javascript:alert(1)" }),
+    ).rejects.toMatchObject({ code: "VALIDATION_ERROR" });
+
+    const error = await renderOnce(options, { url: "/" }).catch((e) => e);
+    expect(error).toBeInstanceOf(SSRError);
+    expect(error).toMatchObject({ code: "RENDER_ERROR", message: "boom" });
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("renderStream", () => {
+  it("should record the shell, each reveal and the end in order", async () => {
+    const cleanup = vi.fn();
+    const result = await renderStream(
+      {
+        setup: () => ({ app: app() }),
+        streamCallbacks: {
+          head: () => "<title>Post</title>",
+          state: () => ({ ready: true }),
+        },
+        cleanup,
+      },
+      { url: "/post/1", template },
+    );
+
+    const kinds = result.chunks.map((chunk) => chunk.kind);
+    expect(kinds[0]).toBe("shell");
+    expect(kinds.at(-1)).toBe("end");
+    expect(kinds).toContain("reveal");
+
+    const shell = result.chunks.filter((chunk) => chunk.kind === "shell");
+    expect(shell.map((chunk) => chunk.html).join("")).toContain(
+      "<title>Post</title>",
+    );
+    expect(shell.map((chunk) => chunk.html).join("")).toContain("Loading");
+    expect(
+      result.chunks.find((chunk) => chunk.kind === "reveal")?.html,
+    ).toContain("Ready");
+    expect(result.chunks.at(-1)?.html).toMatch(/__SSR_STATE__.*<\/html>$/);
+
+    expect(result.timing.shell).toBeLessThan(result.timing.end);
+    expect(result.html).toBe(result.chunks.map((chunk) => chunk.html).join(""));
+    expect(result.errors).toEqual([]);
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it("should write everything at once in allReady mode", async () => {
+    const result = await renderStream(
+      { setup: () => ({ app: app() }), streamCallbacks: {} },
+      { url: "/", template, mode: "allReady" },
+    );
+
+    expect(result.chunks.some((chunk) => chunk.kind === "reveal")).toBe(false);
+    expect(result.html).toContain("Ready");
+    expect(result.html).not.toContain("Loading");
+  });
+});
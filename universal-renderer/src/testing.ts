@@ -0,0 +1,273 @@
+/**
+ * In-process test harness, importable as `universal-renderer/testing`.
+ *
+ * Runs the render pipeline of a server configuration without Express or a network,
+ * so entries can be tested from vitest or any other runner.
+ */
+import { Writable } from "node:stream";
+
+import { createAssetResolver } from "@/assets";
+import { SSRError } from "@/errors";
+import { defaultLogger } from "@/logger";
+import { renderToOutput, withNonce } from "@/render";
+import type { ResponseMeta } from "@/response";
+import { streamDocument } from "@/stream";
+import { splitTemplate } from "@/templates";
+import { RenderTimer } from "@/timing";
+import type {
+  RenderOutput,
+  ServerOptions,
+  SSRHandlerOptions,
+  StreamMode,
+} from "@/types";
+import { validateRenderRequest } from "@/validation";
+
+/**
+ * A request rendered by {@link renderOnce}.
+ */
+export type TestRenderRequest = {
+  /** The URL to render, validated and normalized like on the server. */
+  url: string;
+  /** Props passed to `setup`. */
+  props?: Record<string, any>;
+  /** Content-Security-Policy nonce, as sent by the Rails gem. */
+  nonce?: string;
+};
+
+/**
+ * A request rendered by {@link renderStream}.
+ */
+export type TestStreamRequest = TestRenderRequest & {
+  /** The HTML template containing `SSR_MARKERS.HEAD` and `SSR_MARKERS.BODY`. */
+  template: string;
+  /**
+   * When the document starts flushing.
+   * @default "shell"
+   */
+  mode?: StreamMode;
+};
+
+/**
+ * A chunk of a streamed document, in the order it was written.
+ */
+export type StreamChunk = {
+  /**
+   * `shell` for the template head and the shell, `reveal` for content streamed once a
+   * Suspense boundary resolved, `end` for the state, error marker and template tail.
+   */
+  kind: "shell" | "reveal" | "end";
+  html: string;
+  /** Milliseconds since the render started. */
+  at: number;
+};
+
+/**
+ * The result of {@link renderStream}.
+ */
+export type StreamTestResult = {
+  /** The chunks in the order they were written. */
+  chunks: StreamChunk[];
+  /** The complete document. */
+  html: string;
+  /** What the render set on its {@link ResponseControl}. */
+  response?: ResponseMeta;
+  /** Errors raised after the shell, as written to the error marker. */
+  errors: SSRError[];
+  /** Milliseconds until the shell was written and until the document ended. */
+  timing: { shell?: number; end: number };
+};
+
+/**
+ * Counts cleanup calls and fails the render when `cleanup` did not run exactly once.
+ */
+function trackCleanup<TContext extends Record<string, any>>(
+  options: Pick<SSRHandlerOptions<TContext>, "setup" | "cleanup">,
+) {
+  let context: TContext | undefined;
+  let calls = 0;
+
+  return {
+    setup: async (...args: Parameters<SSRHandlerOptions<TContext>["setup"]>) =>
+      (context = await options.setup(...args)),
+    cleanup:
+      options.cleanup &&
+      ((value: TContext) => {
+        calls++;
+        options.cleanup!(value);
+      }),
+    // A render error is kept as the cause, so the miscount does not hide it
+    assert(error?: unknown) {
+      if (context && options.cleanup && calls !== 1) {
+        throw new Error(
+          `cleanup ran ${calls} times instead of once`,
+          error === undefined ? undefined : { cause: error },
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Renders a request like the JSON routes of {@link ServerOptions} do, and returns the
+ * output sent to the client.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - The server configuration under test
+ * @param request - The URL, props and nonce to render
+ * @returns The rendered output, with serialized state, asset links and `response`
+ * @throws {SSRError} When the request is invalid or the render fails
+ * @throws {Error} When `cleanup` did not run exactly once, with a render error as its `cause`
+ *
+ * @example
+ * ```typescript
+ * import { renderOnce } from 'universal-renderer/testing';
+ *
+ * it('renders the about page', async () => {
+ *   const output = await renderOnce(serverOptions, { url: '/about' });
+ *   expect(output.body).toContain('<h1>About</h1>');
+ * });
+ * ```
+ */
+export async function renderOnce<
+  TContext extends Record<string, any> = Record<string, any>,
+>(
+  options: ServerOptions<TContext>,
+  request: TestRenderRequest,
+): Promise<RenderOutput> {
+  if (!options.setup || !options.render) {
+    throw new Error("setup and render callbacks are required");
+  }
+
+  const { url, props, nonce } = await validateRenderRequest(
+    request,
+    options.validate,
+  );
+  const tracked = trackCleanup(options as SSRHandlerOptions<TContext>);
+  const timer = new RenderTimer("ssr");
+
+  try {
+    const output = await renderToOutput(
+      {
+        ...options,
+        setup: tracked.setup,
+        render: options.render,
+        cleanup: tracked.cleanup,
+      },
+      url,
+      props,
+      {
+        timeout: options.timeout,
+        timer,
+        assets: options.assets && createAssetResolver(options.assets),
+        nonce,
+      },
+    );
+    tracked.assert();
+    return withNonce(output, nonce);
+  } catch (error) {
+    const ssrError = SSRError.from(error, timer.phase);
+    tracked.assert(ssrError);
+    throw ssrError;
+  }
+}
+
+/**
+ * Streams a request like the `/stream` route of {@link ServerOptions} does, recording
+ * every chunk with the time it was written.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - The server configuration under test; requires `streamCallbacks`
+ * @param request - The URL, props, template and stream mode to render
+ * @returns The chunks, the complete document, the response meta and errors after the shell
+ * @throws {SSRError} When the request is invalid or setup or the shell fails
+ * @throws {Error} When `cleanup` did not run exactly once, with a render error as its `cause`
+ *
+ * @example
+ * ```typescript
+ * import { renderStream } from 'universal-renderer/testing';
+ *
+ * it('reveals the comments after the shell', async () => {
+ *   const { chunks } = await renderStream(serverOptions, { url: '/post/1', template });
+ *   expect(chunks[0].html).toContain('Loading comments');
+ *   expect(chunks.find((chunk) => chunk.kind === 'reveal')?.html).toContain('First!');
+ * });
+ * ```
+ */
+export async function renderStream<
+  TContext extends Record<string, any> = Record<string, any>,
+>(
+  options: ServerOptions<TContext>,
+  request: TestStreamRequest,
+): Promise<StreamTestResult> {
+  const streamCallbacks = options.streamCallbacks;
+  if (!options.setup || !streamCallbacks) {
+    throw new Error("setup and streamCallbacks are required");
+  }
+
+  const { url, props, nonce } = await validateRenderRequest(
+    request,
+    options.validate,
+  );
+  const tracked = trackCleanup(options as SSRHandlerOptions<TContext>);
+  const timer = new RenderTimer("stream");
+
+  const chunks: StreamChunk[] = [];
+  let kind: StreamChunk["kind"] = "shell";
+  let shell: number | undefined;
+
+  // Records synchronously, so everything written while piping the shell belongs to it
+  const recorder = new Writable({
+    write(chunk, _encoding, callback) {
+      const html = String(chunk);
+      if (html) chunks.push({ kind, html, at: timer.elapsed() });
+      callback();
+    },
+  });
+
+  let document;
+  try {
+    document = await streamDocument(
+      {
+        ...options,
+        setup: tracked.setup,
+        cleanup: tracked.cleanup,
+        streamCallbacks,
+      },
+      url,
+      props,
+      {
+        template: splitTemplate(request.template),
+        mode: request.mode ?? "shell",
+        timeout: options.timeout,
+        nonce,
+        timer,
+        assets: options.assets && createAssetResolver(options.assets),
+        log: options.logger ?? defaultLogger,
+        target: {
+          open: () => recorder,
+          redirect() {},
+          shellWritten() {
+            shell = timer.elapsed();
+            kind = "reveal";
+          },
+          ending() {
+            kind = "end";
+          },
+        },
+      },
+    );
+    await document.done;
+  } catch (error) {
+    tracked.assert(error);
+    throw error;
+  }
+  tracked.assert();
+
+  return {
+    chunks,
+    html: chunks.map((chunk) => chunk.html).join(""),
+    response: document.response.toJSON(),
+    errors: document.errors,
+    timing: { shell, end: timer.elapsed() },
+  };
+}
@@ -0,0 +1,60 @@
+import { RenderTimeoutError } from "@/errors";
+
+/** Request header carrying a per-request render deadline in milliseconds. */
+export const TIMEOUT_HEADER = "x-ssr-timeout";
+
+/**
+ * Picks the shortest of the configured deadline and the valid deadlines requested by a client,
+ * so a client can only shorten the configured deadline, never extend it.
+ *
+ * @param configured - The handler's `timeout` option
+ * @param requested - Raw values of the `timeout` body field and the `X-SSR-Timeout` header
+ * @returns The effective timeout in milliseconds, or `undefined` for no deadline
+ */
+export function requestTimeout(
+  configured: number | undefined,
+  requested: unknown[],
+): number | undefined {
+  const valid = requested
+    .map(Number)
+    .filter((value) => Number.isFinite(value) && value > 0);
+
+  const candidates = configured ? [configured, ...valid] : valid;
+  return candidates.length ? Math.min(...candidates) : undefined;
+}
+
+/**
+ * Rejects with a {@link RenderTimeoutError} if `promise` does not settle within `timeout`.
+ *
+ * The original promise keeps running; `onTimeout` lets callers mark the work as abandoned
+ * so late results can be cleaned up.
+ *
+ * @param promise - The work to wait for
+ * @param timeout - Deadline in milliseconds; no deadline when `undefined`
+ * @param onTimeout - Called once when the deadline is exceeded
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: number | undefined,
+  onTimeout?: () => void,
+): Promise<T> {
+  if (!timeout) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout?.();
+      reject(new RenderTimeoutError(timeout));
+    }, timeout);
+
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
@@ -0,0 +1,86 @@
+import type { Response } from "express";
+
+import type { RenderMetrics } from "@/metrics";
+import type { RenderPhase } from "@/types";
+
+/** Phases observed in the `ssr_phase_duration_seconds` histogram. */
+const OBSERVED_PHASES: ReadonlySet<RenderPhase> = new Set([
+  "setup",
+  "render",
+  "cleanup",
+]);
+
+/**
+ * Records phase durations for a single request.
+ *
+ * Durations are reported in the `Server-Timing` response header and, when metrics
+ * are configured, observed in the phase duration histogram.
+ */
+export class RenderTimer {
+  private readonly entries: Array<{ name: string; duration: number }> = [];
+  private readonly startedAt = performance.now();
+
+  /** The phase in progress, reported when a render fails. Completed phases are unwound. */
+  phase: RenderPhase | undefined;
+
+  /**
+   * @param handler - Label identifying the handler, e.g. `ssr` or `stream`
+   * @param metrics - Optional metrics to record phase durations into
+   */
+  constructor(
+    private readonly handler: string,
+    private readonly metrics?: RenderMetrics,
+  ) {}
+
+  /**
+   * Starts timing a phase.
+   * @returns A function that ends the phase and returns its duration in milliseconds
+   */
+  start(phase: RenderPhase): () => number {
+    const previous = this.phase;
+    this.phase = phase;
+    const start = performance.now();
+    return () => {
+      this.phase = previous;
+      const duration = performance.now() - start;
+      this.record(phase, duration);
+      return duration;
+    };
+  }
+
+  /**
+   * Records a completed phase or milestone.
+   * @param name - Phase name as it should appear in `Server-Timing`
+   * @param duration - Duration in milliseconds
+   */
+  record(name: RenderPhase | "total", duration: number) {
+    this.entries.push({ name, duration });
+
+    if (OBSERVED_PHASES.has(name as RenderPhase)) {
+      this.metrics?.phaseDuration.observe(
+        { handler: this.handler, phase: name },
+        duration / 1000,
+      );
+    }
+  }
+
+  /** Milliseconds elapsed since the timer was created. */
+  elapsed(): number {
+    return performance.now() - this.startedAt;
+  }
+
+  /** The `Server-Timing` header value for everything recorded so far. */
+  toServerTiming(): string {
+    return this.entries
+      .map(({ name, duration }) => `${name};dur=${duration.toFixed(1)}`)
+      .join(", ");
+  }
+}
+
+/**
+ * Sets the `Server-Timing` header from a timer, if anything was recorded.
+ */
+export function setServerTiming(res: Response, timer: RenderTimer) {
+  const value = timer.toServerTiming();
+  if (value) res.setHeader("Server-Timing", value);
+}
@@ -1,5 +1,16 @@
-import type { ErrorRequestHandler, RequestHandler } from "express";
+import type { Application, ErrorRequestHandler, RequestHandler } from "express";
+import type { Server } from "node:http";
 import type { ReactNode } from "react";
+import type { InlineConfig } from "vite";
+
+import type { AssetsOptions } from "@/assets";
+import type { AuthOptions } from "@/auth";
+import type { CompressionOptions } from "@/compression";
+import type { SSRErrorBody } from "@/errors";
+import type { FallbackOptions } from "@/fallback";
+import type { RenderMetrics } from "@/metrics";
+import type { ResponseControl, ResponseMeta } from "@/response";
+import type { TemplateRegistry, TemplateRegistryOptions } from "@/templates";
 
 /**
  * The output structure returned by the render function.
@@ -26,6 +37,244 @@ export type RenderOutput = {
    * @example "class='dark-theme' data-page='home'"
    */
   bodyAttrs?: string;
+
+  /**
+   * Hydration state for the client. It is serialized safely, including `Date`, `Map`,
+   * `Set` and `BigInt` values, and returned as a `<script type="application/json">`
+   * element that `readState()` from `universal-renderer/client` reads back.
+   * @example { user: { id: 1, signedUpAt: new Date() } }
+   */
+  state?: unknown;
+
+  /**
+   * Status code, redirect, headers and cookies for the client to apply. Handlers fill it
+   * from the {@link ResponseControl} passed to `setup`; renders without access to one,
+   * such as worker renders, may return it directly.
+   * @example { status: 404, headers: { "cache-control": "no-store" } }
+   */
+  response?: ResponseMeta;
+};
+
+/**
+ * The phases of a single render, used in timings, metrics and logs.
+ */
+export type RenderPhase = "setup" | "render" | "shell" | "stream" | "cleanup";
+
+/**
+ * Structured fields attached to a log line.
+ * Handlers log `requestId`, `url`, `route`, `phase`, `duration` (milliseconds) and `err`.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A pino-compatible logger. Pass a pino instance directly, or adapt any other logger
+ * by implementing these methods.
+ */
+export type Logger = {
+  error(fields: LogFields, msg?: string): void;
+  warn(fields: LogFields, msg?: string): void;
+  info(fields: LogFields, msg?: string): void;
+  debug?(fields: LogFields, msg?: string): void;
+  /** Returns a logger adding `bindings` to every line, if supported. */
+  child?(bindings: LogFields): Logger;
+};
+
+/**
+ * A JSON response of the SSR protocol, independent of the HTTP framework.
+ * Express handlers and `createFetchHandler` both send it.
+ */
+export type ProtocolResponse = {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+};
+
+/**
+ * Events and inputs of a single streaming render.
+ */
+export type StreamRenderOptions = {
+  /** The context returned by `setup`, e.g. used as Vue's `ssrContext`. */
+  context: Record<string, any>;
+  /** Module scripts loading the hydration entry, appended to the output. */
+  bootstrapModules?: string[];
+  /** Content-Security-Policy nonce for every inline and bootstrap script the renderer emits. */
+  nonce?: string;
+  /** Called once the first part of the document can be sent. */
+  onShellReady(): void;
+  /** Called instead of `onShellReady` when nothing could be rendered. */
+  onShellError(error: unknown): void;
+  /**
+   * Called once everything has been rendered, or has failed or been aborted after the
+   * shell, whether or not it was piped yet. The `allReady` stream mode pipes here.
+   */
+  onAllReady?(): void;
+  /** Called for every error, including the reason of an abort. */
+  onError(error: unknown, errorInfo?: { componentStack?: string | null }): void;
+};
+
+/**
+ * A streaming render in progress.
+ */
+export type StreamRenderResult = {
+  /** Writes the rendered HTML to `destination` and ends it once rendering completes. */
+  pipe(destination: NodeJS.WritableStream): void;
+  /** Stops rendering; pending parts are left to the client. */
+  abort(reason?: unknown): void;
+};
+
+/**
+ * Renders a UI framework's node to a Node stream for the streaming routes.
+ * `reactRenderer` is the default; see `createVueRenderer` for another framework.
+ */
+export type StreamRenderer = {
+  renderToStream(
+    node: unknown,
+    options: StreamRenderOptions,
+  ): StreamRenderResult;
+};
+
+/**
+ * Inputs of a single render to a Web stream.
+ */
+export type WebStreamRenderOptions = Pick<
+  StreamRenderOptions,
+  "context" | "bootstrapModules" | "nonce" | "onError"
+> & {
+  /** Stops rendering once aborted; pending parts are left to the client. */
+  signal: AbortSignal;
+};
+
+/**
+ * A render to a Web stream whose shell is ready.
+ */
+export type WebStreamRenderResult = {
+  /** The rendered HTML, closed once rendering completes. */
+  stream: ReadableStream<Uint8Array>;
+  /** Settles once everything has been rendered, or has failed or been aborted. */
+  allReady: Promise<void>;
+};
+
+/**
+ * Renders a UI framework's node to a Web `ReadableStream` for `createFetchHandler`.
+ * `reactWebRenderer` is the default.
+ */
+export type WebStreamRenderer = {
+  /** Resolves once the shell is ready, or rejects when nothing could be rendered. */
+  renderToReadableStream(
+    node: unknown,
+    options: WebStreamRenderOptions,
+  ): Promise<WebStreamRenderResult>;
+};
+
+/**
+ * A store for cached render output. Implement this to back the cache with
+ * an external service such as Redis; values must be serialized by the adapter.
+ */
+export type RenderCacheStore = {
+  /**
+   * Returns the cached output for a key, or `undefined` when missing or expired.
+   */
+  get(
+    key: string,
+  ): Promise<RenderOutput | undefined> | RenderOutput | undefined;
+
+  /**
+   * Stores output under a key.
+   * @param ttl - Time to live in milliseconds, if configured
+   */
+  set(key: string, value: RenderOutput, ttl?: number): Promise<void> | void;
+};
+
+/**
+ * Configuration for caching render output.
+ */
+export type RenderCacheOptions = {
+  /**
+   * The cache store. Defaults to an in-memory LRU store bounded to 50 MB.
+   */
+  store?: RenderCacheStore;
+
+  /**
+   * Computes the cache key for a render. Return `null` or `undefined` to skip the cache.
+   * Defaults to a hash of the URL and props.
+   *
+   * @example
+   * ```typescript
+   * cacheKey: (url, props) => props.user ? null : new URL(url).pathname
+   * ```
+   */
+  cacheKey?: (
+    url: string,
+    props: Record<string, any>,
+  ) => string | null | undefined;
+
+  /**
+   * Time to live for cached entries in milliseconds. Entries never expire when omitted.
+   */
+  ttl?: number;
+};
+
+/**
+ * A validation issue reported by a schema.
+ */
+export type SchemaIssue = {
+  message: string;
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+};
+
+/**
+ * A schema implementing the Standard Schema interface (zod 3.24+, valibot, arktype, ...).
+ */
+export type StandardSchema<T = Record<string, any>> = {
+  readonly "~standard": {
+    validate(
+      value: unknown,
+    ):
+      | { value: T; issues?: undefined }
+      | { issues: ReadonlyArray<SchemaIssue> }
+      | Promise<
+          | { value: T; issues?: undefined }
+          | { issues: ReadonlyArray<SchemaIssue> }
+        >;
+  };
+};
+
+/**
+ * A schema with a zod-like `safeParse` method.
+ */
+export type SafeParseSchema<T = Record<string, any>> = {
+  safeParse(
+    value: unknown,
+  ):
+    | { success: true; data: T }
+    | { success: false; error: { issues: ReadonlyArray<SchemaIssue> } };
+};
+
+/**
+ * Configuration for validating incoming render requests.
+ */
+export type ValidationOptions = {
+  /**
+   * Schema the props must satisfy. The parsed value is what `setup` receives.
+   *
+   * @example
+   * ```typescript
+   * props: z.object({ product: z.object({ id: z.number() }) })
+   * ```
+   */
+  props?: StandardSchema | SafeParseSchema;
+
+  /**
+   * Hostnames absolute URLs may point at. A leading `*.` matches any subdomain.
+   * When omitted, any host is accepted.
+   * @example ["shop.example.com", "*.example.com"]
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Maximum template size in bytes for streaming requests.
+   */
+  maxTemplateSize?: number;
 };
 
 /**
@@ -37,6 +286,8 @@ export type BaseHandlerOptions<TContext extends Record<string, any>> = {
    * Setup function called before rendering to prepare the context.
    * @param url - The URL being rendered
    * @param props - Additional props passed from the client
+   * @param response - Controls the status code, redirect, headers and cookies of the page;
+   *   keep it on the context to use it while rendering. Worker renders do not receive one.
    * @returns Context object that will be passed to render and cleanup functions
    *
    * @example
@@ -57,6 +308,7 @@ export type BaseHandlerOptions<TContext extends Record<string, any>> = {
   setup: (
     url: string,
     props: Record<string, any>,
+    response: ResponseControl,
   ) => Promise<TContext> | TContext;
 
   /**
@@ -65,6 +317,69 @@ export type BaseHandlerOptions<TContext extends Record<string, any>> = {
    */
   cleanup?: (context: TContext) => void;
 
+  /**
+   * Optional render deadline in milliseconds.
+   * Clients may request a shorter deadline with a `timeout` body field or an `X-SSR-Timeout` header.
+   * JSON renders exceeding it respond with `504`; streaming renders are aborted so that
+   * unresolved Suspense boundaries fall back to client rendering.
+   */
+  timeout?: number;
+
+  /**
+   * Optional request validation. URLs are always normalized and must be absolute
+   * http(s) URLs or paths starting with `/`; invalid requests receive a `400`
+   * with `{ error: "Validation Error", message, field }`.
+   */
+  validate?: ValidationOptions;
+
+  /**
+   * Optional Vite build manifests. Links for the hydration entry's stylesheets and chunks,
+   * and for the chunks of modules listed in `context.modules`, are added to the head;
+   * the entry is loaded as a module script. Production builds only.
+   *
+   * @example
+   * ```typescript
+   * assets: {
+   *   manifest: 'dist/client/.vite/manifest.json',
+   *   ssrManifest: 'dist/client/.vite/ssr-manifest.json',
+   *   entry: 'src/client.tsx',
+   * }
+   * ```
+   */
+  assets?: AssetsOptions;
+
+  /**
+   * Optional metrics to record render timings and in-flight renders into.
+   * `createServer` creates these automatically and exposes them at `/metrics`.
+   */
+  metrics?: RenderMetrics;
+
+  /**
+   * Answer failed renders with a page the client renders instead of an error. `/stream`
+   * sends the template with an empty root and the client assets; the JSON route sends an
+   * empty body flagged `{ fallback: true, reason }`. Both set `X-SSR-Fallback` to the error
+   * code and still log the failure. Invalid requests are reported as usual, and batch jobs
+   * keep reporting their errors.
+   *
+   * @example
+   * ```typescript
+   * fallback: { root: '<div id="app"></div>' }
+   * ```
+   */
+  fallback?: boolean | FallbackOptions;
+
+  /**
+   * Optional logger. Defaults to JSON lines on the console.
+   *
+   * @example
+   * ```typescript
+   * import pino from 'pino';
+   *
+   * logger: pino()
+   * ```
+   */
+  logger?: Logger;
+
   /**
    * Optional error handler to be applied to the server.
    * This error handler will be applied after the built-in middleware but before the error handler.
@@ -84,88 +399,508 @@ export type SSRHandlerOptions<TContext extends Record<string, any>> =
      * @returns The rendered output containing head, body, and optional body attributes
      */
     render: (context: TContext) => Promise<RenderOutput> | RenderOutput;
+
+    /**
+     * Optional render cache. Identical requests are served from the cache and
+     * the `X-SSR-Cache` response header reports `HIT`, `MISS` or `BYPASS`.
+     * Failed renders are never cached.
+     */
+    cache?: RenderCacheOptions;
   };
 
 /**
- * Configuration options for the streaming SSR handler.
+ * A single render job submitted to the batch handler.
+ */
+export type BatchJob = {
+  /** Caller-chosen identifier used as the key of the job's result. */
+  id: string;
+  /** The URL being rendered. */
+  url: string;
+  /** Additional props passed to setup. */
+  props?: Record<string, any>;
+};
+
+/**
+ * The result of a single batch job: the rendered output, or an error when that job failed.
+ */
+export type BatchResult = RenderOutput | SSRErrorBody;
+
+/**
+ * Configuration options for the batch SSR handler.
  * @template TContext - The type of context object used throughout the rendering pipeline
  */
-export type StreamHandlerOptions<TContext extends Record<string, any>> =
-  BaseHandlerOptions<TContext> & {
+export type BatchHandlerOptions<TContext extends Record<string, any>> =
+  SSRHandlerOptions<TContext> & {
     /**
-     * Streaming callbacks for React 18+ streaming SSR.
+     * Maximum number of jobs rendered at the same time within one request, a positive
+     * integer.
+     * @default 4
      */
-    streamCallbacks: {
+    concurrency?: number;
+  };
+
+/**
+ * Configuration options for the streaming SSR handler.
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ */
+/**
+ * When `/stream` starts flushing: `shell` as soon as the shell is ready, `allReady` once
+ * every Suspense boundary has resolved.
+ */
+export type StreamMode = "shell" | "allReady";
+
+/**
+ * Selects the {@link StreamMode} of streaming requests.
+ */
+export type StreamModeOptions = {
+  /**
+   * When `/stream` starts flushing. `shell` flushes on shell-ready; `auto` waits for all
+   * content for crawlers and link-preview fetchers, detected with `isBot`, and flushes
+   * the shell early otherwise. A `mode` field in the request body takes precedence.
+   * @default "shell"
+   */
+  streamMode?: StreamMode | "auto";
+
+  /**
+   * Bot detector used by the `auto` mode, called with the page's user agent.
+   * Defaults to {@link isBot}.
+   */
+  isBot?: (userAgent: string) => boolean;
+};
+
+export type StreamHandlerOptions<TContext extends Record<string, any>> =
+  BaseHandlerOptions<TContext> &
+    StreamModeOptions & {
       /**
-       * Function to extract the React component/element to be streamed.
-       * This is the primary way to specify what React content should be rendered.
-       * If not provided, the handler will fall back to looking for `context.app` or `context.jsx` properties.
-       *
-       * @param context - The context object returned by the setup function
-       * @returns The React node (component, element, or JSX) to be passed to React's streaming renderer
-       *
-       * @example
-       * ```typescript
-       * node: (context) => context.app
-       * ```
+       * Streaming callbacks for React 18+ streaming SSR.
        */
-      node?: (context: TContext) => ReactNode;
+      streamCallbacks: {
+        /**
+         * Function to extract the React component/element to be streamed.
+         * This is the primary way to specify what React content should be rendered.
+         * If not provided, the handler will fall back to looking for `context.app` or `context.jsx` properties.
+         *
+         * @param context - The context object returned by the setup function
+         * @returns The React node (component, element, or JSX) to be passed to React's streaming renderer,
+         * or whatever the configured `renderer` accepts, such as a Vue app
+         *
+         * @example
+         * ```typescript
+         * node: (context) => context.app
+         * ```
+         */
+        node?: (context: TContext) => ReactNode | object;
+
+        /**
+         * Optional function to generate head content for streaming.
+         * @param context - The context object from setup()
+         * @returns HTML string for the head section
+         *
+         * @example
+         * ```typescript
+         * head: (context) => {
+         *   return `<meta name="description" content="...">`;
+         * }
+         * ```
+         */
+        head?: (context: TContext) => Promise<string> | string;
+
+        /**
+         * Optional transform stream for processing the rendered output.
+         * @param context - The context object from setup()
+         * @returns Transform stream to process the output
+         *
+         * @example
+         * ```typescript
+         * transform: (context) => {
+         *   return new TransformStream();
+         * }
+         * ```
+         */
+        transform?: (context: TContext) => NodeJS.ReadWriteStream;
+
+        /**
+         * Optional function returning hydration state, called once every Suspense boundary
+         * has resolved. The state is serialized like `RenderOutput.state` and written
+         * before the end of the template.
+         * @param context - The context object from setup()
+         * @returns The state to pass to the client
+         *
+         * @example
+         * ```typescript
+         * state: (context) => context.queryClient.getQueryCache().getAll()
+         * ```
+         */
+        state?: (context: TContext) => unknown;
+      };
 
       /**
-       * Optional function to generate head content for streaming.
-       * @param context - The context object from setup()
-       * @returns HTML string for the head section
-       *
-       * @example
-       * ```typescript
-       * head: (context) => {
-       *   return `<meta name="description" content="...">`;
-       * }
-       * ```
+       * Optional registry of templates sent before, letting clients send `templateHash`
+       * instead of the full template.
        */
-      head?: (context: TContext) => Promise<string> | string;
+      templates?: TemplateRegistry;
 
       /**
-       * Optional transform stream for processing the rendered output.
-       * @param context - The context object from setup()
-       * @returns Transform stream to process the output
+       * Optional renderer for another UI framework. Defaults to `reactRenderer`.
        *
        * @example
        * ```typescript
-       * transform: (context) => {
-       *   return new TransformStream();
-       * }
+       * import { renderToNodeStream } from 'vue/server-renderer';
+       *
+       * renderer: createVueRenderer({ renderToNodeStream })
        * ```
        */
-      transform?: (context: TContext) => NodeJS.ReadWriteStream;
+      renderer?: StreamRenderer;
     };
+
+/**
+ * Streaming callbacks of {@link FetchHandlerOptions}. They match the Express streaming
+ * callbacks, except that `transform` returns a Web `TransformStream`.
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ */
+export type WebStreamCallbacks<TContext extends Record<string, any>> = Omit<
+  StreamHandlerOptions<TContext>["streamCallbacks"],
+  "transform"
+> & {
+  /**
+   * Optional transform stream for processing the rendered output.
+   * @param context - The context object from setup()
+   * @returns A `TransformStream` of encoded HTML chunks
+   */
+  transform?: (context: TContext) => TransformStream<Uint8Array, Uint8Array>;
+};
+
+/**
+ * Configuration options for the runtime-agnostic fetch handler.
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ */
+export type FetchHandlerOptions<
+  TContext extends Record<string, any> = Record<string, any>,
+> = Omit<SSRHandlerOptions<TContext>, "render" | "error"> &
+  Partial<Pick<SSRHandlerOptions<TContext>, "render">> &
+  StreamModeOptions &
+  RenderLimitOptions &
+  Pick<ServerOptions<TContext>, "batchConcurrency" | "bodyLimit"> & {
+    /**
+     * Optional streaming callbacks. When provided, enables the `/stream` route.
+     */
+    streamCallbacks?: WebStreamCallbacks<TContext>;
+
+    /**
+     * Optional renderer used by the `/stream` route. Defaults to `reactWebRenderer`.
+     */
+    renderer?: WebStreamRenderer;
+
+    /**
+     * Options for the `/stream` template registry, or `false` to require the full
+     * template with every request.
+     */
+    templates?: TemplateRegistryOptions | false;
+
+    /**
+     * Require requests to the rendering routes to be signed with a shared secret.
+     * Defaults to the `SSR_AUTH_SECRET` environment variable; `false` disables it.
+     */
+    auth?: AuthOptions | false;
   };
 
+/** A function answering Web `Request`s, as accepted by Hono, Bun and Deno. */
+export type FetchHandler = (request: Request) => Promise<Response>;
+
 /**
  * Configuration options for creating an SSR server.
  * @template TContext - The type of context object passed between setup, render, and cleanup functions
  */
 export type ServerOptions<
   TContext extends Record<string, any> = Record<string, any>,
-> = SSRHandlerOptions<TContext> & {
+> = Omit<SSRHandlerOptions<TContext>, "setup" | "render"> &
+  Partial<Pick<SSRHandlerOptions<TContext>, "setup" | "render">> &
+  StreamModeOptions &
+  RenderLimitOptions & {
+    /**
+     * Optional streaming callbacks for React 18+ streaming SSR.
+     * When provided, enables the `/stream` endpoint for streaming responses.
+     */
+    streamCallbacks?: StreamHandlerOptions<TContext>["streamCallbacks"];
+
+    /**
+     * Optional renderer used by the `/stream` endpoint. Defaults to `reactRenderer`.
+     */
+    renderer?: StreamRenderer;
+
+    /**
+     * Optional Express middleware to be applied to the server.
+     * This middleware will be applied after the built-in middleware but before the error handler.
+     *
+     * @example
+     * ```typescript
+     * middleware: (req, res, next) => {
+     *   // Add custom headers, authentication, etc.
+     *   res.setHeader('X-Custom-Header', 'value');
+     *   next();
+     * }
+     * ```
+     */
+    middleware?: RequestHandler;
+
+    /**
+     * Maximum number of jobs rendered at the same time by the `/batch` endpoint.
+     * @default 4
+     */
+    batchConcurrency?: number;
+
+    /**
+     * Log one line per completed request with its method, status and duration.
+     * @default false
+     */
+    accessLog?: boolean;
+
+    /**
+     * Require requests to `/`, `/static`, `/batch` and `/stream` to be signed with a
+     * shared secret (see `createAuthMiddleware`). `/health` and `/metrics` stay open.
+     * Defaults to the `SSR_AUTH_SECRET` environment variable; `false` disables it.
+     *
+     * @example
+     * ```typescript
+     * auth: { secret: [process.env.SSR_AUTH_SECRET!, process.env.SSR_AUTH_SECRET_OLD!] }
+     * ```
+     */
+    auth?: AuthOptions | false;
+
+    /**
+     * Maximum size of a request body, before and after decompression, as bytes or a
+     * string such as `"100mb"`. Larger bodies are answered with `413`.
+     * @default "50mb"
+     */
+    bodyLimit?: number | string;
+
+    /**
+     * Compress responses with Brotli or gzip when the client accepts it. Streamed
+     * responses are flushed through the compressor chunk by chunk.
+     * @default false
+     */
+    compression?: boolean | CompressionOptions;
+
+    /**
+     * Optional worker pool running the JSON and batch renders off the main event loop.
+     * When provided, `setup`, `render` and `cleanup` are loaded from `workers.module`
+     * inside each worker instead of being taken from these options. Streaming still
+     * runs on the main thread and requires `setup`.
+     */
+    workers?: WorkerPoolOptions;
+
+    /**
+     * Options for the registry of stream templates referenced by `templateHash`,
+     * or `false` to require the full template on every `/stream` request.
+     * @default { maxBytes: 10485760 }
+     */
+    templates?: TemplateRegistryOptions | false;
+
+    /**
+     * Named render entries served by this process, each with its own callbacks,
+     * middleware, error handler, caches and worker pool. Requests name their app with an
+     * `app` body field or the `/apps/:name` path prefix. The server-wide options (`auth`,
+     * `logger`, load shedding, body parsing, compression, metrics and shutdown) stay at
+     * the top level; `setup` and `render` must not be set there.
+     *
+     * @example
+     * ```typescript
+     * apps: {
+     *   storefront: { setup: storefront.setup, streamCallbacks: storefront.stream },
+     *   admin: { setup: admin.setup, render: admin.render, timeout: 10_000 },
+     * }
+     * ```
+     */
+    apps?: Record<string, AppOptions<any>>;
+
+    /**
+     * Host name `startServer` binds to.
+     * @default "0.0.0.0"
+     */
+    hostname?: string;
+
+    /**
+     * Port `startServer` listens on.
+     * @default 3001
+     */
+    port?: number;
+
+    /**
+     * Maximum time `startServer` waits for in-flight renders and open streams on
+     * shutdown before closing their connections, in milliseconds.
+     * @default 25000
+     */
+    shutdownTimeout?: number;
+
+    /**
+     * How long `startServer` keeps accepting connections on shutdown while `/health`
+     * answers `503`, before it stops accepting them, in milliseconds. Gives load
+     * balancers time to stop routing to the server; `shutdownTimeout` starts afterwards.
+     * @default 5000
+     */
+    shutdownDelay?: number;
+
+    /**
+     * Called by `startServer` once the server has drained, e.g. to close database connections.
+     */
+    onShutdown?: () => void | Promise<void>;
+
+    /**
+     * Whether `startServer` shuts down gracefully on `SIGTERM` and `SIGINT` and then exits.
+     * @default true
+     */
+    handleSignals?: boolean;
+  };
+
+/**
+ * Options of an entry in {@link ServerOptions.apps}: the callbacks and the options
+ * that apply to a single app.
+ * @template TContext - The type of context object passed between setup, render, and cleanup functions
+ */
+export type AppOptions<
+  TContext extends Record<string, any> = Record<string, any>,
+> = Omit<
+  ServerOptions<TContext>,
+  | "apps"
+  | "logger"
+  | "metrics"
+  | "accessLog"
+  | "auth"
+  | "bodyLimit"
+  | "compression"
+  | keyof RenderLimitOptions
+  | "hostname"
+  | "port"
+  | "shutdownTimeout"
+  | "shutdownDelay"
+  | "onShutdown"
+  | "handleSignals"
+>;
+
+/**
+ * A server started with `startServer`.
+ */
+export type RunningServer = {
+  /** The Express application. */
+  app: Application;
+  /** The underlying HTTP server. */
+  server: Server;
+  /** The address the server listens on, e.g. `http://0.0.0.0:3001`. */
+  url: string;
+  /** Drains in-flight requests and stops the server without exiting the process. */
+  close: () => Promise<void>;
+};
+
+/**
+ * Configuration options for the render worker pool.
+ */
+export type WorkerPoolOptions = {
+  /**
+   * Path or file URL of a compiled ES module exporting `setup`, `render` and optional
+   * `cleanup`, as named exports or on the default export. Relative paths are resolved
+   * from the working directory.
+   * @example "./dist/ssr-entry.js"
+   */
+  module: string;
+
+  /**
+   * Number of worker threads.
+   * @default os.availableParallelism() - 1 (at least 1)
+   */
+  size?: number;
+
+  /**
+   * Maximum number of renders waiting for a free worker before new ones are rejected with `503`.
+   * @default 100
+   */
+  maxQueue?: number;
+
   /**
-   * Optional streaming callbacks for React 18+ streaming SSR.
-   * When provided, enables the `/stream` endpoint for streaming responses.
+   * Recycle a worker after this many renders.
    */
-  streamCallbacks?: StreamHandlerOptions<TContext>["streamCallbacks"];
+  maxRenders?: number;
+
+  /**
+   * Recycle a worker once its V8 heap usage exceeds this many bytes.
+   */
+  maxMemory?: number;
+};
+
+/**
+ * Load shedding for the rendering routes, shared by the JSON, batch and `/stream` routes.
+ */
+export type RenderLimitOptions = {
+  /**
+   * Maximum number of requests rendered at the same time; further requests wait in a
+   * queue. Unlimited when omitted.
+   */
+  maxConcurrentRenders?: number;
+
+  /**
+   * Maximum number of requests waiting for a render slot. Requests beyond it are
+   * answered immediately with `503` and `Retry-After`.
+   * @default 100
+   */
+  maxQueueSize?: number;
+
+  /**
+   * How long a request may wait for a render slot, in milliseconds, before it is
+   * answered with `503` and `Retry-After`.
+   * @default 1000
+   */
+  queueTimeout?: number;
+};
+
+/**
+ * The shape of an SSR entry module loaded by the development server.
+ * Callbacks may be provided as named exports or as properties of the default export.
+ * @template TContext - The type of context object passed between setup, render, and cleanup functions
+ *
+ * @example
+ * ```typescript
+ * // src/ssr.tsx
+ * export const setup = (url, props) => ({ app: <App url={url} {...props} /> });
+ * export const render = (context) => ({ body: renderToString(context.app) });
+ * export const streamCallbacks = { node: (context) => context.app };
+ * ```
+ */
+export type SSREntryModule<
+  TContext extends Record<string, any> = Record<string, any>,
+> = Pick<SSRHandlerOptions<TContext>, "setup" | "render" | "cleanup"> &
+  Pick<ServerOptions<TContext>, "streamCallbacks" | "renderer">;
+
+/**
+ * Configuration options for creating a development SSR server backed by Vite.
+ */
+export type DevServerOptions = {
+  /**
+   * Path to the SSR entry module, resolved by Vite relative to its root.
+   * The module is re-loaded through `ssrLoadModule` on every request, so
+   * changes to components are picked up without restarting the process.
+   * @example "/src/ssr.tsx"
+   */
+  entry: string;
+
+  /**
+   * Optional Vite configuration. The server is always created in middleware
+   * mode with a `custom` app type.
+   */
+  vite?: InlineConfig;
+
+  /**
+   * Optional logger. Defaults to JSON lines on the console.
+   */
+  logger?: Logger;
 
   /**
    * Optional Express middleware to be applied to the server.
    * This middleware will be applied after the built-in middleware but before the error handler.
-   *
-   * @example
-   * ```typescript
-   * middleware: (req, res, next) => {
-   *   // Add custom headers, authentication, etc.
-   *   res.setHeader('X-Custom-Header', 'value');
-   *   next();
-   * }
-   * ```
    */
   middleware?: RequestHandler;
+
+  /**
+   * Optional error handler to be applied to the server.
+   * SSR stack traces are rewritten to point at the original source before it is called.
+   */
+  error?: ErrorRequestHandler;
 };
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "./errors";
+import {
+  normalizeUrl,
+  validateNonce,
+  validateProps,
+  validateTemplate,
+} from "./validation";
+
+describe("normalizeUrl", () => {
+  it("should normalize absolute URLs and paths", () => {
+    expect(normalizeUrl(" https://Shop.Example.com/a/../b?q=1 ")).toBe(
+      "https://shop.example.com/b?q=1",
+    );
+    expect(normalizeUrl("/a/./b")).toBe("/a/b");
+  });
+
+  it("should reject missing, relative and disallowed URLs", () => {
+    expect(() => normalizeUrl(undefined)).toThrow(
+      "URL is missing in request body",
+    );
+    expect(() => normalizeUrl("page")).toThrow(ValidationError);
+    expect(() => normalizeUrl("javascript:alert(1)")).toThrow(
+      "URL must use http or https",
+    );
+    expect(() => normalizeUrl("https://evil.test/", ["*.example.com"])).toThrow(
+      "Host evil.test is not allowed",
+    );
+    expect(normalizeUrl("https://shop.example.com/", ["*.example.com"])).toBe(
+      "https://shop.example.com/",
+    );
+  });
+});
+
+describe("validateProps", () => {
+  it("should report the first schema issue with its field path", async () => {
+    const schema = {
+      safeParse: (value: unknown) =>
+        (value as any).id
+          ? { success: true as const, data: { id: Number((value as any).id) } }
+          : {
+              success: false as const,
+              error: { issues: [{ message: "Required", path: ["id"] }] },
+            },
+    };
+
+    await expect(validateProps({ id: "1" }, schema)).resolves.toEqual({
+      id: 1,
+    });
+    await expect(validateProps({}, schema)).rejects.toMatchObject({
+      message: "Required",
+      field: "props.id",
+    });
+  });
+
+  it("should support Standard Schema validators", async () => {
+    const schema = {
+      "~standard": {
+        validate: async () => ({
+          issues: [{ message: "Too long", path: [{ key: "name" }] }],
+        }),
+      },
+    };
+
+    await expect(validateProps({ name: "x" }, schema)).rejects.toMatchObject({
+      field: "props.name",
+    });
+  });
+});
+
+describe("validateTemplate", () => {
+  it("should enforce the size limit and the body marker", () => {
+    expect(() =>
+      validateTemplate("x".repeat(20), "<!-- SSR_BODY -->", {
+        maxTemplateSize: 10,
+      }),
+    ).toThrow("Template exceeds 10 bytes");
+    expect(() => validateTemplate("<html>", "<!-- SSR_BODY -->")).toThrow(
+      "Template missing <!-- SSR_BODY --> marker",
+    );
+  });
+});
+
+describe("validateNonce", () => {
+  it("should accept base64 tokens and reject anything else", () => {
+    expect(validateNonce(undefined)).toBeUndefined();
+    expect(validateNonce("r4nd0m+/Nonce==")).toBe("r4nd0m+/Nonce==");
+    expect(() => validateNonce('x" onload="alert(1)')).toThrow(
+      "Nonce must be a base64 string",
+    );
+    expect(() => validateNonce(42)).toThrow(ValidationError);
+  });
+});
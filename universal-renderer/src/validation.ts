@@ -0,0 +1,185 @@
+import { ValidationError } from "@/errors";
+import type {
+  SafeParseSchema,
+  SchemaIssue,
+  StandardSchema,
+  ValidationOptions,
+} from "@/types";
+
+/**
+ * The validated and normalized contents of a render request.
+ */
+export type RenderRequest = {
+  url: string;
+  props: Record<string, any>;
+  /** Content-Security-Policy nonce of the page, e.g. Rails' `content_security_policy_nonce`. */
+  nonce?: string;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Normalizes a URL and checks it against the allowed hosts.
+ *
+ * Absolute URLs must use http or https; paths must start with `/` and are normalized
+ * without a host.
+ *
+ * @throws {ValidationError} When the URL is missing, malformed or not allowed
+ */
+export function normalizeUrl(url: unknown, allowedHosts?: string[]): string {
+  if (typeof url !== "string" || !url.trim()) {
+    throw new ValidationError("URL is missing in request body", "url");
+  }
+
+  const value = url.trim();
+
+  if (value.startsWith("/") && !value.startsWith("//")) {
+    const { pathname, search, hash } = new URL(value, "http://localhost");
+    return pathname + search + hash;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    throw new ValidationError("URL must be absolute or start with /", "url");
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new ValidationError("URL must use http or https", "url");
+  }
+
+  if (
+    allowedHosts &&
+    !allowedHosts.some((host) => matchesHost(host, parsed.hostname))
+  ) {
+    throw new ValidationError(`Host ${parsed.hostname} is not allowed`, "url");
+  }
+
+  return parsed.href;
+}
+
+function matchesHost(pattern: string, hostname: string): boolean {
+  if (pattern.startsWith("*.")) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return pattern === hostname;
+}
+
+const issueField = (issue: SchemaIssue) =>
+  [
+    "props",
+    ...(issue.path ?? []).map((segment) =>
+      String(typeof segment === "object" ? segment.key : segment),
+    ),
+  ].join(".");
+
+/**
+ * Checks a Content-Security-Policy nonce, which is written into attributes as is.
+ *
+ * @throws {ValidationError} When the nonce is not a base64 or base64url token
+ */
+export function validateNonce(nonce: unknown): string | undefined {
+  if (nonce === undefined || nonce === null) return undefined;
+
+  if (typeof nonce !== "string" || !/^[\w+/=-]{1,256}$/.test(nonce)) {
+    throw new ValidationError("Nonce must be a base64 string", "nonce");
+  }
+  return nonce;
+}
+
+/**
+ * Validates props against a Standard Schema or a zod-like `safeParse` schema.
+ *
+ * @returns The parsed props
+ * @throws {ValidationError} For the first reported issue
+ */
+export async function validateProps(
+  props: unknown,
+  schema?: StandardSchema | SafeParseSchema,
+): Promise<Record<string, any>> {
+  if (!isPlainObject(props)) {
+    throw new ValidationError("Props must be an object", "props");
+  }
+
+  if (!schema) return props;
+
+  if ("~standard" in schema) {
+    const result = await schema["~standard"].validate(props);
+    if (result.issues) {
+      const [issue] = result.issues;
+      throw new ValidationError(
+        issue?.message ?? "Invalid props",
+        issue ? issueField(issue) : "props",
+      );
+    }
+    return result.value;
+  }
+
+  const result = schema.safeParse(props);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    throw new ValidationError(
+      issue?.message ?? "Invalid props",
+      issue ? issueField(issue) : "props",
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Validates the `url`, `props` and `nonce` of a render request.
+ *
+ * @param body - The request body, or a batch job
+ * @param options - The handler's validation options
+ * @returns The normalized URL and parsed props
+ * @throws {ValidationError} When the request is invalid
+ */
+export async function validateRenderRequest(
+  body: unknown,
+  options: ValidationOptions = {},
+): Promise<RenderRequest> {
+  if (!isPlainObject(body)) {
+    throw new ValidationError("Request body must be a JSON object", "body");
+  }
+
+  const nonce = validateNonce(body.nonce);
+  return {
+    url: normalizeUrl(body.url, options.allowedHosts),
+    props: await validateProps(body.props ?? {}, options.props),
+    ...(nonce && { nonce }),
+  };
+}
+
+/**
+ * Validates a streaming template: it must be a string within the size limit
+ * containing the body marker.
+ *
+ * @throws {ValidationError} When the template is invalid
+ */
+export function validateTemplate(
+  template: unknown,
+  marker: string,
+  options: ValidationOptions = {},
+): string {
+  if (typeof template !== "string") {
+    throw new ValidationError("Template must be a string", "template");
+  }
+
+  if (
+    options.maxTemplateSize &&
+    Buffer.byteLength(template) > options.maxTemplateSize
+  ) {
+    throw new ValidationError(
+      `Template exceeds ${options.maxTemplateSize} bytes`,
+      "template",
+    );
+  }
+
+  if (!template.includes(marker)) {
+    throw new ValidationError(`Template missing ${marker} marker`, "template");
+  }
+
+  return template;
+}
@@ -0,0 +1,205 @@
+import {
+  prepareDocument,
+  type DocumentRun,
+  type DocumentStream,
+} from "@/document";
+import { RenderTimeoutError, SSRError } from "@/errors";
+import { reactWebRenderer } from "@/renderers/react-web";
+import type { ResponseControl } from "@/response";
+import type { RenderTimer } from "@/timing";
+import type {
+  FetchHandlerOptions,
+  WebStreamCallbacks,
+  WebStreamRenderResult,
+} from "@/types";
+
+/**
+ * Where {@link streamWebDocument} hands a document over: a Web `Response`, usually.
+ */
+export type WebDocumentTarget = {
+  /**
+   * Receives the document as it streams, with the status and headers set on the
+   * {@link ResponseControl}.
+   */
+  open(
+    response: ResponseControl,
+    timer: RenderTimer,
+    body: ReadableStream<Uint8Array>,
+  ): void;
+  /** Answers a redirect requested by the render, without a body. */
+  redirect(response: ResponseControl): void;
+  /** Called once the opened document ended or its reader cancelled it. */
+  closed?(): void;
+};
+
+/**
+ * Streams a document with the streaming callbacks to a Web `ReadableStream`; the
+ * pipeline behind the `/stream` route of `createFetchHandler`. It behaves like
+ * `streamDocument` without any Node APIs: the renderer's stream goes through
+ * `streamCallbacks.transform` and a `TransformStream` adding the template head, then
+ * the hydration state, error marker and template tail. Errors of the rendered stream
+ * end it early, so the tail still follows. Cleanup runs once the document ended, its
+ * reader cancelled it or it failed.
+ *
+ * @template TContext - The type of context object used throughout the rendering pipeline
+ * @param options - The setup/cleanup and streaming callbacks, renderer and metrics
+ * @param url - The URL being rendered
+ * @param props - Additional props passed from the client
+ * @param run - The inputs of the document and the target receiving it
+ * @returns The document once it started streaming or was redirected
+ * @throws {SSRError} When setup, the shell or the head failed before anything was sent
+ */
+export async function streamWebDocument<TContext extends Record<string, any>>(
+  options: Pick<
+    FetchHandlerOptions<TContext>,
+    "setup" | "cleanup" | "renderer" | "metrics"
+  > & { streamCallbacks: WebStreamCallbacks<TContext> },
+  url: string,
+  props: Record<string, any>,
+  run: DocumentRun & { target: WebDocumentTarget },
+): Promise<DocumentStream> {
+  const { streamCallbacks } = options;
+  const { timer, assets, log, target, nonce } = run;
+  const renderer = options.renderer ?? reactWebRenderer;
+  const prepared = await prepareDocument(options, url, props, run);
+  const { response, context, node, errors, failure } = prepared;
+
+  if (response.redirected) {
+    target.redirect(response);
+    return { response, errors, done: Promise.resolve() };
+  }
+
+  let settle: () => void;
+  const done = new Promise<void>((resolve) => {
+    settle = resolve;
+  });
+  const aborter = new AbortController();
+  let deadline: ReturnType<typeof setTimeout> | undefined;
+  let abandoned = false;
+  let opened = false;
+  let ended = false;
+
+  const finish = () => {
+    clearTimeout(deadline);
+    prepared.cleanup();
+    if (ended) return;
+    ended = true;
+    if (opened) target.closed?.();
+    settle();
+  };
+
+  // Drops the render while nothing was sent yet
+  const abandon = (reason?: unknown) => {
+    abandoned = true;
+    aborter.abort(reason);
+    finish();
+  };
+
+  // Abort whatever is still pending once the remaining budget is spent
+  const { timeout } = run;
+  if (timeout) {
+    const remaining = Math.max(0, timeout - timer.elapsed());
+    deadline = setTimeout(
+      () => aborter.abort(new RenderTimeoutError(timeout)),
+      remaining,
+    );
+  }
+
+  let rendering: WebStreamRenderResult;
+  try {
+    timer.phase = "shell";
+    rendering = await renderer.renderToReadableStream(node, {
+      context,
+      bootstrapModules: assets?.bootstrapModules,
+      nonce,
+      signal: aborter.signal,
+      onError(error, errorInfo) {
+        if (response.redirected || abandoned) return;
+
+        const ssrError = SSRError.from(error, timer.phase);
+        ssrError.componentStack ??= errorInfo?.componentStack ?? undefined;
+
+        // Aborting flushes client-side fallbacks for every pending boundary
+        if (error instanceof RenderTimeoutError) {
+          if (!errors.includes(ssrError)) errors.push(ssrError);
+          return;
+        }
+
+        errors.push(ssrError);
+        log.error(failure(ssrError), "Stream error");
+      },
+    });
+  } catch (error) {
+    abandon();
+    const reported = errors.find(
+      (entry) => entry === error || entry.cause === error,
+    );
+    throw reported ?? SSRError.from(error, "shell");
+  }
+
+  const shell = timer.elapsed();
+  timer.phase = "stream";
+  timer.record("shell", shell);
+  options.metrics?.timeToShell.observe({}, shell / 1000);
+
+  let source: ReadableStream<Uint8Array>;
+  let head: string;
+  try {
+    if (run.mode === "allReady") await rendering.allReady.catch(() => {});
+    head = await prepared.head();
+
+    // The shell asked for a redirect; drop the render instead of streaming it
+    if (response.redirected) {
+      abandon();
+      target.redirect(response);
+      return { response, errors, done };
+    }
+
+    const transform = streamCallbacks.transform?.(context);
+    source = transform
+      ? rendering.stream.pipeThrough(transform)
+      : rendering.stream;
+  } catch (error) {
+    const ssrError = SSRError.from(error, timer.phase);
+    abandon(ssrError);
+    throw ssrError;
+  }
+
+  // Ends the rendered stream on errors instead of failing the response
+  const reader = source.getReader();
+  const rendered = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) return controller.close();
+        controller.enqueue(value);
+      } catch (error) {
+        const ssrError = SSRError.from(error, "stream");
+        errors.push(ssrError);
+        log.error(failure(ssrError), "Stream failed");
+        controller.close();
+      }
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason);
+    },
+  });
+
+  const encoder = new TextEncoder();
+  const body = rendered.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(head));
+      },
+      flush(controller) {
+        controller.enqueue(encoder.encode(prepared.end()));
+        finish();
+      },
+    }),
+  );
+
+  opened = true;
+  target.open(response, timer, body);
+  return { response, errors, done };
+}
@@ -0,0 +1,138 @@
+// @vitest-environment node
+import { fileURLToPath } from "node:url";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { RenderTimeoutError, WorkerQueueFullError } from "./errors";
+import { ResponseControl } from "./response";
+import { WorkerPool } from "./workers";
+
+const module = fileURLToPath(
+  new URL("./test/fixtures/render-worker.mjs", import.meta.url),
+);
+
+describe("WorkerPool", () => {
+  let pool: WorkerPool;
+
+  afterEach(() => pool.close());
+
+  it("should render on a worker thread and propagate errors", async () => {
+    pool = new WorkerPool({ module, size: 1 });
+
+    const output = await pool.run("/a", {});
+    expect(output.body).toBe("<p>/a</p>");
+    expect(output.head).not.toBe("0");
+
+    await expect(pool.run("/b", { fail: true })).rejects.toThrow("boom");
+  });
+
+  it("should replay the response control and return the rendered modules", async () => {
+    pool = new WorkerPool({ module, size: 1 });
+
+    const response = new ResponseControl();
+    response.nonce = "abc";
+    const output = await pool.run(
+      "/a",
+      { status: 404, nonce: true, modules: ["./App.tsx"] },
+      response,
+    );
+    expect(output).toEqual({
+      body: '<script nonce="abc"></script>',
+      modules: ["./App.tsx"],
+    });
+    expect(response.toJSON()).toEqual({ status: 404 });
+    expect(response.personalized).toBe(true);
+
+    const redirect = new ResponseControl();
+    await expect(
+      pool.run("/b", { redirect: "/login" }, redirect),
+    ).resolves.toEqual({ body: "" });
+    expect(redirect.toJSON()).toMatchObject({
+      status: 302,
+      location: "/login",
+    });
+  });
+
+  it("should recycle workers after maxRenders", async () => {
+    pool = new WorkerPool({ module, size: 1, maxRenders: 1 });
+
+    const first = await pool.run("/a", {});
+    const second = await pool.run("/a", {});
+
+    expect(second.head).not.toBe(first.head);
+  });
+
+  it("should reject renders once the queue is full", async () => {
+    pool = new WorkerPool({ module, size: 1, maxQueue: 1 });
+
+    const running = pool.run("/a", { delay: 50 });
+    const queued = pool.run("/b", {});
+
+    expect(pool.stats()).toMatchObject({ busy: 1, queued: 1, saturated: true });
+    await expect(pool.run("/c", {})).rejects.toBeInstanceOf(
+      WorkerQueueFullError,
+    );
+    await expect(Promise.all([running, queued])).resolves.toHaveLength(2);
+  });
+
+  it("should replace workers still rendering at the deadline", async () => {
+    pool = new WorkerPool({ module, size: 1 });
+
+    const first = await pool.run("/a", {});
+    await expect(
+      pool.run("/b", { delay: 5000 }, undefined, 50),
+    ).rejects.toBeInstanceOf(RenderTimeoutError);
+    expect(pool.stats()).toMatchObject({ busy: 0 });
+
+    const next = await pool.run("/c", {});
+    expect(next.head).not.toBe(first.head);
+  });
+
+  it("should fail renders whose cleanup throws", async () => {
+    pool = new WorkerPool({ module, size: 1 });
+
+    await expect(pool.run("/a", { cleanupFail: true })).rejects.toThrow(
+      "cleanup failed",
+    );
+    await expect(pool.run("/b", {})).resolves.toMatchObject({
+      body: "<p>/b</p>",
+    });
+  });
+
+  it("should stop and reject every job when the module fails to load", async () => {
+    const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn() };
+    pool = new WorkerPool(
+      {
+        module: fileURLToPath(
+          new URL("./test/fixtures/broken-worker.mjs", import.meta.url),
+        ),
+        size: 2,
+      },
+      logger,
+    );
+
+    const queued = pool.run("/a", {});
+    await expect(queued).rejects.toThrow(
+      /Failed to load render module .*: cannot load/,
+    );
+    await expect(pool.run("/b", {})).rejects.toThrow("cannot load");
+
+    // The workers are not respawned
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.anything(),
+      "Render module failed to load",
+    );
+  });
+
+  it("should replace workers that crash", async () => {
+    pool = new WorkerPool({ module, size: 1 });
+
+    await expect(pool.run("/a", { crash: true })).rejects.toThrow(
+      "exited unexpectedly",
+    );
+    await expect(pool.run("/b", {})).resolves.toMatchObject({
+      body: "<p>/b</p>",
+    });
+  });
+});
@@ -0,0 +1,428 @@
+import { availableParallelism } from "node:os";
+import { isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { Worker } from "node:worker_threads";
+
+import { RenderTimeoutError, WorkerQueueFullError } from "@/errors";
+import { defaultLogger } from "@/logger";
+import type { RecordedResponse, ResponseControl } from "@/response";
+import type { Logger, RenderOutput, WorkerPoolOptions } from "@/types";
+
+/**
+ * Source of every render worker. It loads the user module once, reporting a failure
+ * to load it, then runs setup, render and cleanup for each job and reports its heap
+ * usage back.
+ * Setup gets a response control recording its calls, which the pool replays on the
+ * request's {@link ResponseControl}, and the modules the render recorded are sent back
+ * for the asset links.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const { getHeapStatistics } = require("node:v8");
+
+const entry = import(workerData.module).then((mod) =>
+  "setup" in mod ? mod : mod.default,
+);
+entry.catch((error) => {
+  parentPort.postMessage({
+    loadError: { message: String(error?.message ?? error), stack: error?.stack },
+  });
+});
+
+class RecordingResponse {
+  constructor(nonce) {
+    this.requestNonce = nonce;
+    this.calls = [];
+    this.nonceRead = false;
+    this.status = undefined;
+    this.location = undefined;
+  }
+  get nonce() {
+    this.nonceRead = true;
+    return this.requestNonce;
+  }
+  get redirected() {
+    return this.location !== undefined;
+  }
+  setStatus(status) {
+    this.status = status;
+    return this.record("setStatus", status);
+  }
+  redirect(location, status = 302) {
+    this.location = location;
+    this.status = status;
+    return this.record("redirect", location, status);
+  }
+  setHeader(name, value) {
+    return this.record("setHeader", name, value);
+  }
+  setCookie(name, value, options) {
+    return this.record("setCookie", name, value, options);
+  }
+  record(...call) {
+    this.calls.push(call);
+    return this;
+  }
+}
+
+parentPort.on("message", async ({ url, props, nonce }) => {
+  const response = new RecordingResponse(nonce);
+  let mod;
+  let context;
+  let message;
+
+  try {
+    mod = await entry;
+    context = await mod.setup(url, props, response);
+    const output = response.redirected ? { body: "" } : await mod.render(context);
+    const modules = context?.modules;
+    message = {
+      output,
+      modules:
+        modules && typeof modules !== "string" && Symbol.iterator in Object(modules)
+          ? [...modules]
+          : undefined,
+    };
+  } catch (error) {
+    message = {
+      error: { message: String(error?.message ?? error), stack: error?.stack },
+    };
+  } finally {
+    // A cleanup that throws fails the render, as it does on the main thread
+    try {
+      if (context && mod.cleanup) mod.cleanup(context);
+    } catch (error) {
+      message = {
+        error: { message: String(error?.message ?? error), stack: error?.stack },
+      };
+    }
+  }
+
+  parentPort.postMessage({
+    ...message,
+    response: { calls: response.calls, nonceRead: response.nonceRead },
+    heapUsed: getHeapStatistics().used_heap_size,
+  });
+});
+`;
+
+/**
+ * Output of a render in a worker thread.
+ */
+export type WorkerOutput = RenderOutput & {
+  /** Module ids the render recorded on `context.modules`, for the asset links. */
+  modules?: string[];
+};
+
+type Job = {
+  url: string;
+  props: Record<string, any>;
+  nonce?: string;
+  resolve: (output: WorkerOutput) => void;
+  reject: (error: Error) => void;
+  replay: (recorded: RecordedResponse) => void;
+  deadline?: ReturnType<typeof setTimeout>;
+};
+
+type PoolWorker = {
+  worker: Worker;
+  job?: Job;
+  renders: number;
+  retired: boolean;
+};
+
+/**
+ * Point-in-time statistics of a worker pool, reported by the health endpoint.
+ */
+export type WorkerPoolStats = {
+  /** Number of workers in the pool. */
+  size: number;
+  /** Workers currently rendering. */
+  busy: number;
+  /** Jobs waiting for a free worker. */
+  queued: number;
+  /** Maximum number of queued jobs. */
+  maxQueue: number;
+  /** Whether every worker is busy and the queue is full. */
+  saturated: boolean;
+};
+
+/**
+ * A pool of `worker_threads` running setup/render/cleanup off the main event loop.
+ *
+ * Workers are recycled after `maxRenders` renders or once their heap exceeds
+ * `maxMemory`, and replaced automatically if they crash or outlive the deadline of
+ * their render. Workers that crash before finishing a render are replaced with an
+ * increasing delay. Jobs beyond `maxQueue` are rejected with {@link WorkerQueueFullError}.
+ *
+ * When the module fails to load, the pool stops: its workers are terminated and
+ * queued, running and later jobs are rejected with the load error.
+ */
+export class WorkerPool {
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: Job[] = [];
+  private readonly module: string;
+  private readonly size: number;
+  private readonly maxQueue: number;
+  private closed = false;
+  private loadError?: Error;
+  // Consecutive crashes of workers that never finished a render, delaying their replacement
+  private crashes = 0;
+  private readonly respawns = new Set<ReturnType<typeof setTimeout>>();
+
+  /**
+   * @param options - Pool configuration
+   * @param logger - Logger for worker crashes
+   */
+  constructor(
+    private readonly options: WorkerPoolOptions,
+    private readonly logger: Logger = defaultLogger,
+  ) {
+    this.module = options.module.startsWith("file:")
+      ? options.module
+      : pathToFileURL(
+          isAbsolute(options.module) ? options.module : resolve(options.module),
+        ).href;
+    this.size = Math.max(1, options.size ?? availableParallelism() - 1);
+    this.maxQueue = options.maxQueue ?? 100;
+
+    for (let i = 0; i < this.size; i++) {
+      this.workers.push(this.spawn());
+    }
+  }
+
+  /**
+   * Renders a URL on the next free worker.
+   *
+   * @param url - The URL being rendered
+   * @param props - Additional props passed to setup
+   * @param response - The request's response control; setup in the worker gets one carrying
+   *   its nonce, and what the render set on it is replayed here
+   * @param timeout - Deadline in milliseconds, including the time spent queued. A worker
+   *   still rendering when it is reached is terminated and replaced
+   * @throws {WorkerQueueFullError} When every worker is busy and the queue is full
+   * @throws {RenderTimeoutError} When the deadline is exceeded
+   * @throws {Error} When the module failed to load
+   */
+  run(
+    url: string,
+    props: Record<string, any>,
+    response?: ResponseControl,
+    timeout?: number,
+  ): Promise<WorkerOutput> {
+    if (this.loadError) return Promise.reject(this.loadError);
+    if (this.closed) {
+      return Promise.reject(new Error("Worker pool is closed"));
+    }
+
+    const idle = this.workers.find((entry) => !entry.job && !entry.retired);
+    if (!idle && this.queue.length >= this.maxQueue) {
+      return Promise.reject(new WorkerQueueFullError(this.maxQueue));
+    }
+
+    return new Promise<WorkerOutput>((resolve, reject) => {
+      const job: Job = {
+        url,
+        props,
+        nonce: response?.forwardedNonce,
+        resolve,
+        reject,
+        replay: (recorded) => response?.replay(recorded),
+      };
+      if (timeout) {
+        job.deadline = setTimeout(() => this.expire(job, timeout), timeout);
+      }
+      if (idle) this.dispatch(idle, job);
+      else this.queue.push(job);
+    });
+  }
+
+  /** Returns the current pool statistics. */
+  stats(): WorkerPoolStats {
+    const busy = this.workers.filter((entry) => entry.job).length;
+
+    return {
+      size: this.size,
+      busy,
+      queued: this.queue.length,
+      maxQueue: this.maxQueue,
+      saturated: busy === this.size && this.queue.length >= this.maxQueue,
+    };
+  }
+
+  /**
+   * Terminates every worker. Queued and in-flight jobs are rejected.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const respawn of this.respawns) clearTimeout(respawn);
+    this.respawns.clear();
+
+    for (const job of this.queue.splice(0)) {
+      clearTimeout(job.deadline);
+      job.reject(new Error("Worker pool is closed"));
+    }
+
+    await Promise.all(
+      this.workers.map((entry) => {
+        entry.retired = true;
+        clearTimeout(entry.job?.deadline);
+        entry.job?.reject(new Error("Worker pool is closed"));
+        return entry.worker.terminate();
+      }),
+    );
+  }
+
+  private spawn(): PoolWorker {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { module: this.module },
+    });
+    const entry: PoolWorker = { worker, renders: 0, retired: false };
+
+    worker.on("message", (message) => {
+      if (message.loadError) this.failLoad(message.loadError);
+      else this.complete(entry, message);
+    });
+    worker.on("error", (error) => {
+      this.logger.error({ err: error }, "Render worker crashed");
+    });
+    worker.on("exit", () => {
+      if (entry.retired) return;
+
+      // The worker died unexpectedly; fail its job and take its place
+      clearTimeout(entry.job?.deadline);
+      entry.job?.reject(new Error("Render worker exited unexpectedly"));
+      entry.job = undefined;
+
+      // Workers dying before any render may keep dying; back off before replacing them
+      if (entry.renders === 0) {
+        entry.retired = true;
+        const delay = Math.min(100 * 2 ** this.crashes++, 10_000);
+        const respawn = setTimeout(() => {
+          this.respawns.delete(respawn);
+          this.replace(entry);
+        }, delay);
+        this.respawns.add(respawn);
+        return;
+      }
+      this.replace(entry);
+    });
+
+    return entry;
+  }
+
+  private dispatch(entry: PoolWorker, job: Job) {
+    entry.job = job;
+    entry.worker.postMessage({
+      url: job.url,
+      props: job.props,
+      nonce: job.nonce,
+    });
+  }
+
+  private complete(
+    entry: PoolWorker,
+    message: {
+      output?: RenderOutput;
+      modules?: string[];
+      error?: { message: string; stack?: string };
+      response: RecordedResponse;
+      heapUsed: number;
+    },
+  ) {
+    const job = entry.job;
+    entry.job = undefined;
+    entry.renders++;
+    this.crashes = 0;
+    clearTimeout(job?.deadline);
+
+    if (message.error) {
+      const error = new Error(message.error.message);
+      error.stack = message.error.stack;
+      job?.reject(error);
+    } else {
+      try {
+        job?.replay(message.response);
+        job?.resolve({
+          ...message.output!,
+          ...(message.modules && { modules: message.modules }),
+        });
+      } catch (error) {
+        job?.reject(error as Error);
+      }
+    }
+
+    const { maxRenders, maxMemory } = this.options;
+    if (
+      (maxRenders && entry.renders >= maxRenders) ||
+      (maxMemory && message.heapUsed >= maxMemory)
+    ) {
+      entry.retired = true;
+      void entry.worker.terminate();
+      this.replace(entry);
+      return;
+    }
+
+    this.next(entry);
+  }
+
+  // Fails a job past its deadline; a worker still rendering it cannot be interrupted,
+  // so it is terminated and its slot given to a fresh one
+  private expire(job: Job, timeout: number) {
+    job.reject(new RenderTimeoutError(timeout));
+
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      return;
+    }
+
+    const entry = this.workers.find((candidate) => candidate.job === job);
+    if (!entry) return;
+    entry.job = undefined;
+    entry.retired = true;
+    void entry.worker.terminate();
+    this.replace(entry);
+  }
+
+  // The module cannot be loaded, so no worker will ever render; stop the pool
+  private failLoad(loadError: { message: string; stack?: string }) {
+    if (this.loadError) return;
+
+    const cause = new Error(loadError.message);
+    cause.stack = loadError.stack;
+    const error = new Error(
+      `Failed to load render module ${this.module}: ${loadError.message}`,
+      { cause },
+    );
+    this.loadError = error;
+    this.logger.error({ err: error }, "Render module failed to load");
+
+    for (const job of this.queue.splice(0)) {
+      clearTimeout(job.deadline);
+      job.reject(error);
+    }
+    for (const entry of this.workers) {
+      entry.retired = true;
+      clearTimeout(entry.job?.deadline);
+      entry.job?.reject(error);
+      entry.job = undefined;
+      void entry.worker.terminate();
+    }
+  }
+
+  private replace(entry: PoolWorker) {
+    const index = this.workers.indexOf(entry);
+    if (index === -1 || this.closed || this.loadError) return;
+
+    const replacement = this.spawn();
+    this.workers[index] = replacement;
+    this.next(replacement);
+  }
+
+  private next(entry: PoolWorker) {
+    const job = this.queue.shift();
+    if (job) this.dispatch(entry, job);
+  }
+}